@@ -106,3 +106,16 @@ test('max age parameter works', async () => {
   expect(dispose).toHaveBeenNthCalledWith(1, 'a')
   expect(dispose).toHaveBeenNthCalledWith(2, 'b')
 })
+
+test('prune removes the matching entries', () => {
+  const disposeFn = jest.fn()
+  const lru = new LRU<number>({ max: 3, disposeFn })
+  lru.set('a', 1)
+  lru.set('b', 2)
+  lru.set('c', 3)
+  lru.prune((value) => value % 2 === 1)
+  expect(lru.has('a')).toBe(false)
+  expect(lru.get('b')).toBe(2)
+  expect(lru.has('c')).toBe(false)
+  expect(disposeFn.mock.calls).toEqual([['a'], ['c']])
+})
@@ -0,0 +1,92 @@
+import LRUCache from '../components/Prefetch/LRUCache'
+import { createLRUStorage, LRUStorage } from '../components/Prefetch/LRUStorage'
+
+jest.useFakeTimers()
+
+const scope = { appsEtag: 'etag', workspace: 'master', locale: 'en-US' }
+
+describe('LRUCache persistence', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = 10000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    window.sessionStorage.clear()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const flushSave = () => {
+    now += 1000
+    jest.advanceTimersByTime(1000)
+  }
+
+  const storage = (storageScope = scope) =>
+    createLRUStorage<string>(
+      'sessionStorage',
+      'test',
+      storageScope
+    ) as LRUStorage<string>
+
+  it('should restore the entries saved by a previous load', async () => {
+    const cache = new LRUCache<string>({ max: 10 })
+    await cache.persist(storage())
+    cache.set('/a', 'a')
+    cache.set('/b', 'b')
+    flushSave()
+
+    const restored: string[] = []
+    const nextCache = new LRUCache<string>({ max: 10 })
+    await nextCache.persist(storage(), (key) => restored.push(key))
+
+    expect(restored).toEqual(['/a', '/b'])
+    expect(nextCache.get('/a')).toBe('a')
+    expect(nextCache.get('/b')).toBe('b')
+  })
+
+  it('should keep counting the max age from when entries were cached', async () => {
+    const cache = new LRUCache<string>({ max: 10, maxAge: 5000 })
+    await cache.persist(storage())
+    cache.set('/old', 'old')
+    now += 4500
+    cache.set('/new', 'new')
+    flushSave()
+
+    const nextCache = new LRUCache<string>({ max: 10, maxAge: 5000 })
+    await nextCache.persist(storage())
+
+    expect(nextCache.has('/old')).toBe(false)
+    expect(nextCache.get('/new')).toBe('new')
+    now += 5000
+    expect(nextCache.has('/new')).toBe(false)
+  })
+
+  it('should not restore entries saved with another scope', async () => {
+    const cache = new LRUCache<string>({ max: 10 })
+    await cache.persist(storage())
+    cache.set('/a', 'a')
+    flushSave()
+
+    const nextCache = new LRUCache<string>({ max: 10 })
+    await nextCache.persist(storage({ ...scope, appsEtag: 'deployed' }))
+
+    expect(nextCache.has('/a')).toBe(false)
+  })
+
+  it('should keep working when sessionStorage is unavailable', async () => {
+    const unavailable = () => {
+      throw new Error('QuotaExceededError')
+    }
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(unavailable)
+    jest.spyOn(Storage.prototype, 'removeItem').mockImplementation(unavailable)
+
+    const cache = new LRUCache<string>({ max: 10 })
+    await cache.persist(storage())
+    cache.set('/a', 'a')
+
+    expect(flushSave).not.toThrow()
+    expect(cache.get('/a')).toBe('a')
+  })
+})
@@ -174,3 +174,17 @@ it('clear method should empty the queue', async () => {
   expect(mockBeforeFn).toBeCalledTimes(0)
   expect(mockAfterFn).toBeCalledTimes(2)
 })
+
+it('add should resolve once the promise settles or is cleared', async () => {
+  const queue = new PQueue({ autoStart: false })
+
+  const cleared = queue.add(() => sleep(100))
+  queue.clear()
+  const rejected = queue.add(() => Promise.reject(new Error('failed')))
+  const started = queue.add(() => sleep(100))
+  queue.start()
+
+  expect(await cleared).toBe(false)
+  expect(await rejected).toBe(true)
+  expect(await started).toBe(true)
+})
@@ -0,0 +1,72 @@
+import React from 'react'
+import { EventEmitter } from 'eventemitter3'
+import { cleanup, render } from '@vtex/test-tools/react'
+
+import { RenderContextProvider } from '../components/RenderContext'
+import {
+  getPrefetchState,
+  PrefetchContextProvider,
+} from '../components/Prefetch/PrefetchContext'
+import {
+  decidePrefetchPolicy,
+  getPrefetchPolicy,
+  PrefetchPolicy,
+  watchPrefetchPolicy,
+} from '../utils/prefetchPolicy'
+
+jest.mock('../utils/prefetchPolicy', () => ({
+  ...jest.requireActual('../utils/prefetchPolicy'),
+  getPrefetchPolicy: jest.fn(),
+  setPrefetchPolicySettings: jest.fn(),
+  watchPrefetchPolicy: jest.fn(),
+}))
+
+afterEach(cleanup)
+
+const storeSettings = { enablePrefetch: true }
+
+it('should start prefetching again once the policy is enabled again', () => {
+  jest.useFakeTimers()
+  let policy = decidePrefetchPolicy({}, { tier: 'high' })
+  let onPolicyChange = (_: PrefetchPolicy) => {}
+  ;(getPrefetchPolicy as jest.Mock).mockImplementation(() => policy)
+  ;(watchPrefetchPolicy as jest.Mock).mockImplementation((onChange) => {
+    onPolicyChange = onChange
+    return () => {}
+  })
+  const changePolicy = (tier: PrefetchPolicy['tier']) => {
+    policy = decidePrefetchPolicy({}, { tier })
+    onPolicyChange(policy)
+  }
+
+  render(
+    <RenderContextProvider
+      runtime={
+        {
+          culture: { locale: 'en-US' },
+          emitter: new EventEmitter(),
+          ensureSession: () => Promise.resolve(),
+          getSettings: () => storeSettings,
+          hints: { mobile: false },
+          workspace: 'master',
+        } as any
+      }
+    >
+      <PrefetchContextProvider history={null} appsEtag="etag" />
+    </RenderContextProvider>
+  )
+  const { queue } = getPrefetchState()
+
+  window.dispatchEvent(new Event('load'))
+  jest.runAllTimers()
+  expect(queue.isActive).toBe(true)
+
+  changePolicy('off')
+  expect(queue.isActive).toBe(false)
+
+  changePolicy('high')
+  expect(queue.isActive).toBe(true)
+  expect(queue.concurrency).toBe(5)
+
+  jest.useRealTimers()
+})
@@ -0,0 +1,297 @@
+import React from 'react'
+import { act, cleanup, render } from '@vtex/test-tools/react'
+import { EventEmitter } from 'eventemitter3'
+
+import RenderProvider from '../components/RenderProvider'
+import { useRuntime } from '../core/main'
+import { fetchServerPage } from '../utils/routes'
+import {
+  createBrowserRouterAdapter,
+  createMemoryRouterAdapter,
+  RouterAdapter,
+} from '../utils/routerAdapter'
+import { getScrollPosition } from '../utils/scrollRestoration'
+
+jest.mock('../utils/routes', () => ({
+  ...jest.requireActual('../utils/routes'),
+  fetchServerPage: jest.fn(),
+}))
+
+jest.mock('../utils/components', () => ({
+  ...jest.requireActual('../utils/components'),
+  fetchComponents: () => Promise.resolve(),
+}))
+
+jest.useFakeTimers()
+
+const mockedFetchServerPage = fetchServerPage as jest.Mock
+
+const pages = {
+  'store.home': { path: '/', allowConditions: true },
+  'store.custom#about': { path: '/about' },
+  'store.custom#contact': { path: '/contact' },
+} as any
+
+const serverPage = (
+  routeId: string,
+  path: string,
+  response: Partial<ParsedServerPageResponse> = {}
+) => ({
+  appsEtag: 'etag',
+  components: {},
+  extensions: {},
+  matchingPage: { routeId, params: {}, path, title: routeId },
+  messages: {},
+  pages,
+  settings: {},
+  queryData: [],
+  ...response,
+})
+
+const flushPromises = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve()
+  }
+}
+
+let runtimeContext: RenderContext
+
+const CurrentPage = () => {
+  runtimeContext = useRuntime()
+  return <div data-testid="page">{runtimeContext.page}</div>
+}
+
+const renderProvider = (
+  history: RouterAdapter,
+  { pages: runtimePages = pages, settings = {} } = {}
+) => {
+  const runtime = {
+    account: 'vtex',
+    emitter: new EventEmitter(),
+    production: true,
+    blocks: {},
+    blocksTree: {},
+    components: {},
+    culture: { locale: 'en-US' },
+    extensions: {},
+    messages: {},
+    page: 'store.home',
+    pages: runtimePages,
+    query: {},
+    route: { id: 'store.home', path: '/', params: {} },
+    settings,
+    hints: { mobile: false, desktop: true },
+  }
+  const apollo = {
+    getClient: () => ({}),
+    hydrate: () => Promise.resolve(),
+  }
+
+  return render(
+    <RenderProvider
+      {...({
+        runtime,
+        history,
+        apollo,
+        sessionPromise: Promise.resolve(),
+      } as any)}
+    >
+      <CurrentPage />
+    </RenderProvider>
+  )
+}
+
+const pushPage = (history: RouterAdapter, id: string, path: string) =>
+  act(() => {
+    history.push({
+      pathname: path,
+      state: { navigationRoute: { id, params: {}, path }, renderRouting: true },
+    })
+  })
+
+const setScrollY = (top: number) => {
+  Object.defineProperty(window, 'scrollY', { value: top, configurable: true })
+}
+
+beforeEach(() => {
+  window.fetch = jest.fn()
+  window.matchMedia = jest.fn(() => ({
+    matches: true,
+    addListener: () => {},
+    removeListener: () => {},
+  })) as any
+  mockedFetchServerPage.mockReset()
+  window.scrollTo = jest.fn()
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+  window.sessionStorage.clear()
+})
+
+afterEach(() => {
+  cleanup()
+  jest.restoreAllMocks()
+  setScrollY(0)
+})
+
+describe('failed navigations', () => {
+  it('should keep the saved scroll position of the entry when retrying', async () => {
+    const history = createMemoryRouterAdapter()
+    renderProvider(history)
+    const homeKey = history.location.key
+
+    mockedFetchServerPage.mockResolvedValueOnce(
+      serverPage('store.custom#about', '/about')
+    )
+    setScrollY(500)
+    pushPage(history, 'store.custom#about', '/about')
+    await act(flushPromises)
+
+    mockedFetchServerPage
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(serverPage('store.home', '/'))
+    setScrollY(0)
+    act(() => history.goBack())
+    await act(flushPromises)
+    expect(mockedFetchServerPage).toHaveBeenCalledTimes(2)
+
+    act(() => {
+      jest.runOnlyPendingTimers()
+    })
+    await act(flushPromises)
+
+    expect(mockedFetchServerPage).toHaveBeenCalledTimes(3)
+    expect(getScrollPosition(homeKey)).toEqual({ top: 500, left: 0 })
+  })
+
+  it('should load a full page after the last attempt of the browser router', async () => {
+    const { location } = window
+    delete window.location
+    window.location = { ...location, href: '' }
+
+    const history = createBrowserRouterAdapter()
+    renderProvider(history)
+
+    mockedFetchServerPage.mockRejectedValue(new Error('Network error'))
+    pushPage(history, 'store.custom#about', '/about')
+    for (let attempt = 1; attempt < 3; attempt++) {
+      await act(flushPromises)
+      act(() => {
+        jest.runOnlyPendingTimers()
+      })
+    }
+    await act(flushPromises)
+
+    expect(mockedFetchServerPage).toHaveBeenCalledTimes(3)
+    expect(window.location.href).toBe('/about')
+
+    window.location = location
+  })
+})
+
+describe('redirects', () => {
+  it('should send server redirects through the navigation guards', async () => {
+    const protectedPages = {
+      ...pages,
+      'store.account': { path: '/account', auth: true },
+      'store.login': { path: '/login' },
+    }
+    const history = createMemoryRouterAdapter()
+    renderProvider(history, { pages: protectedPages })
+
+    mockedFetchServerPage
+      .mockResolvedValueOnce(
+        serverPage('store.custom#about', '/about', {
+          pages: protectedPages,
+          redirect: '/account',
+        })
+      )
+      .mockResolvedValue(
+        serverPage('store.login', '/login', { pages: protectedPages })
+      )
+    pushPage(history, 'store.custom#about', '/about')
+    await act(flushPromises)
+    act(() => {
+      jest.runOnlyPendingTimers()
+    })
+
+    expect(history.location.pathname).toBe('/login')
+    expect(history.location.search).toBe('?returnUrl=/account')
+  })
+})
+
+describe('concurrent navigations', () => {
+  it('should ignore a navigation that resolves after a newer one', async () => {
+    const history = createMemoryRouterAdapter()
+    const { getByTestId } = renderProvider(history)
+
+    let resolveAbout: (page: any) => void = () => {}
+    mockedFetchServerPage
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveAbout = resolve
+        })
+      )
+      .mockResolvedValueOnce(serverPage('store.custom#contact', '/contact'))
+    pushPage(history, 'store.custom#about', '/about')
+    pushPage(history, 'store.custom#contact', '/contact')
+    await act(flushPromises)
+
+    expect(mockedFetchServerPage.mock.calls[0][0].signal.aborted).toBe(true)
+    expect(getByTestId('page').textContent).toBe('store.custom#contact')
+
+    resolveAbout(serverPage('store.custom#about', '/about'))
+    await act(flushPromises)
+
+    expect(getByTestId('page').textContent).toBe('store.custom#contact')
+  })
+})
+
+describe('navigation guards', () => {
+  it('should keep the entry when a guard cancels a back navigation', async () => {
+    const history = createMemoryRouterAdapter()
+    const { getByTestId } = renderProvider(history)
+
+    mockedFetchServerPage.mockResolvedValue(
+      serverPage('store.custom#about', '/about')
+    )
+    pushPage(history, 'store.custom#about', '/about')
+    await act(flushPromises)
+
+    const beforeNavigate = jest.fn(() => false)
+    act(() => {
+      runtimeContext.addNavigationGuard({ beforeNavigate })
+    })
+    act(() => history.goBack())
+    await act(flushPromises)
+
+    expect(beforeNavigate).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'POP' })
+    )
+    expect(history.location.pathname).toBe('/about')
+    expect(getByTestId('page').textContent).toBe('store.custom#about')
+    expect(mockedFetchServerPage).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('page cache', () => {
+  it('should restore the snapshot of the entry on back navigations', async () => {
+    const history = createMemoryRouterAdapter()
+    const { getByTestId } = renderProvider(history, {
+      settings: { 'vtex.store': { pageCache: { maxEntries: 5 } } },
+    })
+
+    mockedFetchServerPage
+      .mockResolvedValueOnce(serverPage('store.custom#about', '/about'))
+      .mockResolvedValueOnce(serverPage('store.custom#contact', '/contact'))
+    pushPage(history, 'store.custom#about', '/about')
+    await act(flushPromises)
+    pushPage(history, 'store.custom#contact', '/contact')
+    await act(flushPromises)
+
+    act(() => history.goBack())
+    await act(flushPromises)
+
+    expect(mockedFetchServerPage).toHaveBeenCalledTimes(2)
+    expect(getByTestId('page').textContent).toBe('store.custom#about')
+    expect(runtimeContext.route.title).toBe('store.custom#about')
+  })
+})
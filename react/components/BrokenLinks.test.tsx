@@ -0,0 +1,42 @@
+import React from 'react'
+import { EventEmitter } from 'eventemitter3'
+import { cleanup, render } from '@vtex/test-tools/react'
+
+import { buildPath } from '../utils/pages'
+import { useBrokenLinkReport } from './BrokenLinks'
+import { RenderContextProvider } from './RenderContext'
+
+afterEach(cleanup)
+
+const pages = { 'store.product': { path: '/:slug/p' } } as any
+
+describe('useBrokenLinkReport', () => {
+  it('should report a broken link once across renders', () => {
+    const emitter = new EventEmitter()
+    const onAdd = jest.fn()
+    const onRemove = jest.fn()
+    emitter.addListener('brokenLink.add', onAdd)
+    emitter.addListener('brokenLink.remove', onRemove)
+
+    const BrokenLink = () => {
+      // Built on every render, like the params of a link passed inline
+      useBrokenLinkReport(
+        'store.product',
+        buildPath('store.product', {}, undefined, pages)
+      )
+      return null
+    }
+    const renderLink = () => (
+      <RenderContextProvider runtime={{ emitter, production: false } as any}>
+        <BrokenLink />
+      </RenderContextProvider>
+    )
+
+    const { rerender } = render(renderLink())
+    rerender(renderLink())
+
+    expect(onAdd).toHaveBeenCalledTimes(1)
+    expect(onAdd.mock.calls[0][0].errors[0].code).toBe('MISSING_PARAM')
+    expect(onRemove).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react'
+
+import { BuildPathResult, BuildPathError } from '../utils/pages'
+import { useRuntime } from './RenderContext'
+
+interface BrokenLink {
+  id: number
+  page: string
+  errors: BuildPathError[]
+}
+
+let linksCount = 0
+
+/** Reports the problems found while building a link's path to the dev overlay.
+ * It does nothing on production, where the overlay is not rendered. */
+export const useBrokenLinkReport = (
+  page: string | undefined,
+  result: BuildPathResult | null
+) => {
+  const { emitter, production } = useRuntime()
+  // The result is built again on every render when params are passed inline
+  const serializedErrors = result?.errors.length
+    ? JSON.stringify(result.errors)
+    : null
+
+  useEffect(() => {
+    if (production || !emitter || !page || !serializedErrors) {
+      return
+    }
+
+    const id = ++linksCount
+    emitter.emit('brokenLink.add', {
+      id,
+      page,
+      errors: JSON.parse(serializedErrors),
+    })
+
+    return () => {
+      emitter.emit('brokenLink.remove', id)
+    }
+  }, [emitter, production, page, serializedErrors])
+}
+
+const BrokenLinks: React.FunctionComponent = () => {
+  const { emitter } = useRuntime()
+  const [links, setLinks] = useState<BrokenLink[]>([])
+  const [expanded, setExpanded] = useState(false)
+
+  useEffect(() => {
+    const addLink = (link: BrokenLink) =>
+      setLinks((current) => [...current, link])
+    const removeLink = (id: number) =>
+      setLinks((current) => current.filter((link) => link.id !== id))
+
+    emitter.addListener('brokenLink.add', addLink)
+    emitter.addListener('brokenLink.remove', removeLink)
+
+    return () => {
+      emitter.removeListener('brokenLink.add', addLink)
+      emitter.removeListener('brokenLink.remove', removeLink)
+    }
+  }, [emitter])
+
+  if (links.length === 0) {
+    return null
+  }
+
+  return (
+    <div
+      className="broken-links z-max fixed pa3 bg-near-white br3 rebel-pink shadow-4 f6"
+      style={{ bottom: '12px', left: '12px', maxWidth: '480px', opacity: 0.9 }}
+    >
+      <button
+        type="button"
+        className="bn bg-transparent rebel-pink pointer pa0 b"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {links.length === 1
+          ? '1 broken link on this page'
+          : `${links.length} broken links on this page`}
+      </button>
+      {expanded && (
+        <ul
+          className="list pl0 mb0 mt2 overflow-auto"
+          style={{ maxHeight: '40vh' }}
+        >
+          {links.map(({ id, errors }) =>
+            errors.map(({ code, message }) => (
+              <li key={`${id}-${code}-${message}`} className="mt1">
+                <code>{code}</code> {message}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default BrokenLinks
@@ -258,7 +258,9 @@ const ExtensionPoint: FC<Props> = (props) => {
    */
   const maybeClientExtension = (
     <Fragment>
-      {runtime.preview && isRootTreePath && <LoadingBar />}
+      {isRootTreePath && (
+        <LoadingBar {...getSettings('vtex.store')?.loadingBar} />
+      )}
       {renderStrategy === 'client' && !runtime.amp ? (
         <NoSSR onSSR={<Loading />}>{extensionPointComponent}</NoSSR>
       ) : (
@@ -1,8 +1,10 @@
 import React, { MouseEvent, useCallback, useMemo } from 'react'
-import { NavigateOptions, pathFromPageName } from '../utils/pages'
+import { buildPath, NavigateOptions } from '../utils/pages'
 import { useRuntime } from './RenderContext'
 import { useIsPrefetchActive } from '../hooks/prefetch'
 import PrefetchLink from './Prefetch/PrefetchLink'
+import { useBrokenLinkReport } from './BrokenLinks'
+import { useRouteMatch } from '../hooks/routeMatch'
 
 const isLeftClickEvent = (event: MouseEvent<HTMLAnchorElement>) =>
   event.button === 0
@@ -23,8 +25,18 @@ interface Props extends NavigateOptions {
   className?: string
   target?: string
   waitToPrefetch?: number
+  /** Class added while the link points at the current route */
+  activeClassName?: string
+  /** Style merged while the link points at the current route */
+  activeStyle?: React.CSSProperties
+  /** Only consider the link active on its exact page or path, instead of any
+   * path under it */
+  exact?: boolean
+  style?: React.CSSProperties
 }
 
+/** Navigations keep the workspace as a persisting query, but the href is also
+ * used by links opened in new tabs and by crawlers, so it carries it too */
 const appendWorkspaceToURL = (
   url: string | undefined,
   workspace: string | undefined
@@ -55,6 +67,11 @@ const Link: React.FunctionComponent<Props> = ({
   modifiersOptions,
   target,
   waitToPrefetch,
+  activeClassName,
+  activeStyle,
+  exact = false,
+  className,
+  style,
   ...linkProps
 }) => {
   const {
@@ -63,22 +80,38 @@ const Link: React.FunctionComponent<Props> = ({
     rootPath = '',
     route: { domain },
     query: queryFromRuntime,
+    culture,
   } = useRuntime()
 
-  // If workspace is set via querystring, keep it
   const workspace = queryFromRuntime?.workspace
 
   const isPrefetchActive = useIsPrefetchActive()
 
+  const locale = culture?.locale
+  const pagePath = useMemo(
+    () => (page ? buildPath(page, params, query, pages, locale) : null),
+    [page, params, query, pages, locale]
+  )
+
+  useBrokenLinkReport(page, pagePath)
+
+  const matchTarget =
+    page ?? (to && to.startsWith('/') && !to.startsWith('//') ? to : undefined)
+  const routeMatch = useRouteMatch(matchTarget, {
+    exact,
+    params: page ? params : undefined,
+  })
+  const isActive = !!routeMatch
+
   const options = useMemo(
     () => ({
       fallbackToWindowLocation: false,
       page,
       params,
-      query: workspace ? appendWorkspaceToURL(query ?? '', workspace) : query,
+      query,
       rootPath,
       scrollOptions,
-      to: appendWorkspaceToURL(to, workspace),
+      to,
       modifiers,
       replace,
       modifiersOptions,
@@ -87,7 +120,6 @@ const Link: React.FunctionComponent<Props> = ({
       page,
       params,
       query,
-      workspace,
       rootPath,
       scrollOptions,
       to,
@@ -133,12 +165,8 @@ const Link: React.FunctionComponent<Props> = ({
       }
       return to
     }
-    if (page) {
-      const path = pathFromPageName(page, pages, params)
-      const qs = query ? `?${query}` : ''
-      if (path) {
-        return appendWorkspaceToURL(rootPath + path + qs, workspace)
-      }
+    if (pagePath?.path) {
+      return appendWorkspaceToURL(rootPath + pagePath.path, workspace)
     }
     return '#'
   }
@@ -154,6 +182,12 @@ const Link: React.FunctionComponent<Props> = ({
   const linkElementProps = {
     target,
     href: hrefWithoutIframePrefix,
+    className:
+      isActive && activeClassName
+        ? [className, activeClassName].filter(Boolean).join(' ')
+        : className,
+    style: isActive && activeStyle ? { ...style, ...activeStyle } : style,
+    'aria-current': routeMatch?.isExact ? ('page' as const) : undefined,
     ...linkProps,
     onClick: handleClick,
   }
@@ -0,0 +1,84 @@
+import React from 'react'
+import { act, cleanup, render } from '@vtex/test-tools/react'
+import { EventEmitter } from 'eventemitter3'
+
+import LoadingBar from './LoadingBar'
+import { RenderContextProvider } from './RenderContext'
+
+jest.useFakeTimers()
+
+afterEach(cleanup)
+
+const emitter = new EventEmitter()
+
+const renderBar = (preview: boolean, options: LoadingBarOptions = {}) => {
+  const element = (isPreview: boolean) => (
+    <RenderContextProvider runtime={{ emitter, preview: isPreview } as any}>
+      <LoadingBar {...options} />
+    </RenderContextProvider>
+  )
+  const result = render(element(preview))
+
+  return {
+    ...result,
+    setPreview: (isPreview: boolean) => result.rerender(element(isPreview)),
+    getBar: () => result.container.querySelector('[role="progressbar"]'),
+  }
+}
+
+describe('LoadingBar', () => {
+  it('should not show up for navigations faster than the delay', () => {
+    const { getBar, setPreview } = renderBar(true, { delay: 300 })
+
+    act(() => {
+      jest.advanceTimersByTime(200)
+    })
+    setPreview(false)
+    act(() => {
+      jest.runAllTimers()
+    })
+
+    expect(getBar()).toBeNull()
+  })
+
+  it('should show the progress reported by the navigation', () => {
+    const { getBar } = renderBar(true)
+
+    act(() => {
+      jest.runAllTimers()
+    })
+    act(() => {
+      emitter.emit('navigation:progress', { stage: 'fetched', progress: 0.5 })
+    })
+    expect(getBar()?.getAttribute('aria-valuenow')).toBe('50')
+    expect(getBar()?.className).not.toContain('loadingBarAnimation')
+  })
+
+  it('should be animated until the navigation reports its progress', () => {
+    const { getBar } = renderBar(true)
+
+    act(() => {
+      jest.runAllTimers()
+    })
+
+    expect(getBar()?.className).toContain('loadingBarAnimation')
+    expect(getBar()?.hasAttribute('aria-valuenow')).toBe(false)
+  })
+
+  it('should fill up before going away', () => {
+    const { getBar, setPreview } = renderBar(true, { color: 'red' })
+
+    act(() => {
+      jest.runAllTimers()
+    })
+    setPreview(false)
+
+    expect(getBar()?.getAttribute('aria-valuenow')).toBe('100')
+    expect((getBar() as HTMLElement).style.backgroundColor).toBe('red')
+
+    act(() => {
+      jest.runAllTimers()
+    })
+    expect(getBar()).toBeNull()
+  })
+})
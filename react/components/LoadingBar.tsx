@@ -1,20 +1,88 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
+
+import { useRuntime } from './RenderContext'
 import styles from './LoadingBar.css'
 
-const LoadingBar = () => (
-  <div
-    className={`${styles.loadingBarAnimation} fixed top-0 left-0 right-0 z-max bg-action-primary`}
-    style={{ height: 4 }}
-  >
+const DEFAULT_DELAY_MS = 150
+// Time to fill up the bar and fade it out, see LoadingBar.css
+const FINISH_MS = 400
+// Keeps the bar from looking empty once the navigation reports its progress
+const MIN_PROGRESS = 0.1
+
+interface NavigationProgressEvent {
+  progress: number
+}
+
+/** Shows how far along the navigation in progress is, from the stages
+ * reported by the `navigation:progress` event. Until one is reported, e.g. for
+ * `showPageLoading`, it is animated instead. It shows up only after `delay`
+ * and fills up before going away. */
+const LoadingBar: React.FunctionComponent<LoadingBarOptions> = ({
+  delay = DEFAULT_DELAY_MS,
+  color,
+  height = 4,
+}) => {
+  const { emitter, preview } = useRuntime()
+  const [visible, setVisible] = useState(false)
+  const [progress, setProgress] = useState<number | null>(null)
+
+  useEffect(() => {
+    const onProgress = (event: NavigationProgressEvent) =>
+      setProgress(event.progress)
+
+    emitter.addListener('navigation:progress', onProgress)
+    return () => {
+      emitter.removeListener('navigation:progress', onProgress)
+    }
+  }, [emitter])
+
+  useEffect(() => {
+    if (preview) {
+      setProgress(null)
+      const timeout = window.setTimeout(() => setVisible(true), delay)
+      return () => window.clearTimeout(timeout)
+    }
+
+    setProgress(1)
+    const timeout = window.setTimeout(() => setVisible(false), FINISH_MS)
+    return () => window.clearTimeout(timeout)
+  }, [delay, preview])
+
+  if (!visible) {
+    return null
+  }
+
+  const isIndeterminate = progress === null
+  const value = Math.max(progress ?? 0, MIN_PROGRESS)
+  // Themes may also style the bar through the `render-loading-bar` class
+  const className = `${styles.loadingBar} ${
+    isIndeterminate ? styles.loadingBarAnimation : ''
+  } render-loading-bar fixed top-0 left-0 right-0 z-max`
+
+  return (
     <div
+      className={color ? className : `${className} bg-action-primary`}
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={isIndeterminate ? undefined : Math.round(value * 100)}
       style={{
-        background:
-          'linear-gradient(90deg, rgba(255, 255, 255, 0.1) 80%, rgba(255, 255, 255, 0.5) 90%, rgba(255, 255, 255, 0.8))',
-        width: '100%',
-        height: '100%',
+        height,
+        backgroundColor: color,
+        transform: isIndeterminate ? undefined : `scale(${value}, 1)`,
+        opacity: preview ? 1 : 0,
       }}
-    />
-  </div>
-)
+    >
+      <div
+        style={{
+          background:
+            'linear-gradient(90deg, rgba(255, 255, 255, 0.1) 80%, rgba(255, 255, 255, 0.5) 90%, rgba(255, 255, 255, 0.8))',
+          width: '100%',
+          height: '100%',
+        }}
+      />
+    </div>
+  )
+}
 
 export default LoadingBar
@@ -1,3 +1,9 @@
+import debounce from 'debounce'
+
+import { LRUStorage } from './LRUStorage'
+
+const SAVE_DEBOUNCE_MS = 500
+
 class Node<T> {
   public next: Node<T> | null
   public prev: Node<T> | null
@@ -31,6 +37,7 @@ class LRU<T> {
   private maxSize = Infinity
   private maxAge = 0
   private disposeFn: ((key: string) => void) | undefined
+  private storage: LRUStorage<T> | null = null
 
   private head: Node<T> | null = null
   private tail: Node<T> | null = null
@@ -44,7 +51,7 @@ class LRU<T> {
     this.disposeFn = options.disposeFn
   }
 
-  private isExpired(value: Node<T>) {
+  private isExpired(value: { time: number }) {
     if (this.maxAge <= 0) {
       return false
     }
@@ -52,6 +59,20 @@ class LRU<T> {
     return value.time < expiration
   }
 
+  private scheduleSave = debounce(() => {
+    if (!this.storage) {
+      return
+    }
+
+    const entries = []
+    for (let node = this.head; node !== null; node = node.next) {
+      if (!this.isExpired(node)) {
+        entries.push({ key: node.key, value: node.value, time: node.time })
+      }
+    }
+    this.storage.save(entries)
+  }, SAVE_DEBOUNCE_MS)
+
   private ensureLimit() {
     if (this.map.size === this.maxSize && this.tail) {
       this.disposeFn && this.disposeFn(this.tail.key)
@@ -113,7 +134,7 @@ class LRU<T> {
 
     if (!this.head) {
       //set new node to head and tail
-      this.head = this.tail = new Node(key, value)
+      this.head = this.tail = new Node(key, value, null, null, nodeTime)
     } else {
       const node = new Node(key, value, this.head, null, nodeTime)
       //set new node to head
@@ -122,6 +143,43 @@ class LRU<T> {
     }
 
     this.map.set(key, this.head)
+    if (this.storage) {
+      this.scheduleSave()
+    }
+  }
+
+  /** Removes the entries that are no longer valid */
+  public prune(shouldRemove: (value: T, key: string) => boolean) {
+    this.map.forEach((node, key) => {
+      if (shouldRemove(node.value, key)) {
+        this.remove(key)
+        this.disposeFn && this.disposeFn(key)
+      }
+    })
+    if (this.storage) {
+      this.scheduleSave()
+    }
+  }
+
+  /** Restores the entries kept on the storage, which don't replace the ones
+   * already in memory, and keeps it up to date from then on. Restored entries
+   * keep the time they were cached at, so they expire as if they had never
+   * left memory. */
+  public async persist(
+    storage: LRUStorage<T>,
+    onRestore?: (key: string, value: T) => void
+  ) {
+    this.storage = storage
+    const entries = await storage.load()
+
+    // Entries are saved from the most to the least recently used
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const { key, value, time } = entries[i]
+      if (!this.map.has(key) && !this.isExpired({ time })) {
+        this.set(key, value, time)
+        onRestore?.(key, value)
+      }
+    }
   }
 }
 
@@ -0,0 +1,128 @@
+import {
+  readSessionStorage,
+  removeSessionStorage,
+  writeSessionStorage,
+} from '../../utils/sessionStorage'
+
+export interface PersistedEntry<T> {
+  key: string
+  value: T
+  /** When the entry was cached, which its `maxAge` counts from */
+  time: number
+}
+
+/** Keeps the entries of an `LRUCache` across full page loads */
+export interface LRUStorage<T> {
+  load(): Promise<Array<PersistedEntry<T>>>
+  save(entries: Array<PersistedEntry<T>>): void
+}
+
+export type LRUStorageType = 'sessionStorage' | 'indexedDB'
+
+/** Entries are only restored on loads with the same scope, so a deploy, a
+ * workspace change or a locale change invalidates them */
+export interface LRUStorageScope {
+  appsEtag: string
+  workspace: string
+  locale: string
+}
+
+interface StoredCache<T> {
+  scope: string
+  entries: Array<PersistedEntry<T>>
+}
+
+const KEY_PREFIX = '__renderPrefetch'
+const DB_NAME = 'render-prefetch'
+const DB_STORE = 'caches'
+
+const serializeScope = ({ appsEtag, workspace, locale }: LRUStorageScope) =>
+  `${appsEtag}:${workspace}:${locale}`
+
+const readEntries = <T>(
+  stored: StoredCache<T> | null | undefined,
+  scope: string
+) => (stored?.scope === scope ? stored.entries : [])
+
+const createSessionStorage = <T>(
+  name: string,
+  scope: string
+): LRUStorage<T> => {
+  const key = `${KEY_PREFIX}:${name}`
+
+  return {
+    load: async () =>
+      readEntries(readSessionStorage<StoredCache<T> | null>(key, null), scope),
+    save: (entries) => {
+      // Entries that don't fit anymore would be restored out of date
+      if (!writeSessionStorage(key, { scope, entries })) {
+        removeSessionStorage(key)
+      }
+    },
+  }
+}
+
+let db: Promise<IDBDatabase> | null = null
+
+const openDB = () => {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  return db
+}
+
+const createIndexedDBStorage = <T>(
+  name: string,
+  scope: string
+): LRUStorage<T> => ({
+  load: () =>
+    openDB()
+      .then(
+        (database) =>
+          new Promise<StoredCache<T> | undefined>((resolve, reject) => {
+            const request = database
+              .transaction(DB_STORE, 'readonly')
+              .objectStore(DB_STORE)
+              .get(name)
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+          })
+      )
+      .then((stored) => readEntries(stored, scope))
+      .catch(() => []),
+  save: (entries) => {
+    openDB()
+      .then((database) => {
+        database
+          .transaction(DB_STORE, 'readwrite')
+          .objectStore(DB_STORE)
+          .put({ scope, entries }, name)
+      })
+      .catch(() => {
+        // IndexedDB may be unavailable, e.g. on private browsing
+      })
+  },
+})
+
+/** Returns null when the browser doesn't support the type of storage */
+export const createLRUStorage = <T>(
+  type: LRUStorageType,
+  name: string,
+  scope: LRUStorageScope
+): LRUStorage<T> | null => {
+  if (type === 'indexedDB') {
+    return typeof window.indexedDB === 'undefined'
+      ? null
+      : createIndexedDBStorage(name, serializeScope(scope))
+  }
+
+  return typeof window.sessionStorage === 'undefined'
+    ? null
+    : createSessionStorage(name, serializeScope(scope))
+}
@@ -3,6 +3,7 @@ type PromiseFn = () => Promise<any>
 interface QueueObject {
   promise: PromiseFn
   priority: number
+  settle: (ran: boolean) => void
 }
 
 interface AddOptions {
@@ -44,16 +45,28 @@ class PQueue {
     this.isActive = false
   }
   public clear() {
+    const cleared = this.queue
     this.queue = []
     this.runningPromisesCount = 0
+    cleared.forEach(({ settle }) => settle(false))
   }
+  /** Resolves to `true` once the promise settles, or to `false` if the queue
+   * is cleared before starting it */
   public add(promise: PromiseFn, options?: AddOptions) {
-    if (!this.canStart()) {
-      this.enqueue(promise, options)
-      return
-    }
+    return new Promise<boolean>((settle) => {
+      if (!this.canStart()) {
+        this.enqueue(promise, settle, options)
+        return
+      }
 
-    this.startPromise(promise)
+      this.startPromise(promise, settle)
+    })
+  }
+  public setConcurrency(concurrency: number) {
+    this.concurrency = concurrency
+    if (this.isActive) {
+      this.start()
+    }
   }
   public start() {
     this.isActive = true
@@ -78,28 +91,34 @@ class PQueue {
     return this.isActive && !this.isFull()
   }
 
-  private startPromise(promise: PromiseFn) {
+  private startPromise(promise: PromiseFn, settle: QueueObject['settle']) {
     this.runningPromisesCount += 1
     promise()
       .then(() => {
         this.runningPromisesCount -= 1
+        settle(true)
         this.dequeue()
       })
       .catch(() => {
         this.runningPromisesCount -= 1
+        settle(true)
         this.dequeue()
       })
   }
 
   private dequeue() {
     if (this.queue.length > 0 && this.canStart()) {
-      const { promise } = this.queue.shift() as QueueObject
-      this.startPromise(promise)
+      const { promise, settle } = this.queue.shift() as QueueObject
+      this.startPromise(promise, settle)
     }
   }
 
-  private enqueue(promise: PromiseFn, options: AddOptions = {}) {
-    const newItem = { promise, priority: options.priority ?? 0 }
+  private enqueue(
+    promise: PromiseFn,
+    settle: QueueObject['settle'],
+    options: AddOptions = {}
+  ) {
+    const newItem = { promise, priority: options.priority ?? 0, settle }
     if (this.queue.length > 1) {
       const lastElem = this.queue[this.queue.length - 1]
       if (newItem.priority > lastElem.priority) {
@@ -8,11 +8,24 @@ import React, {
   MutableRefObject,
 } from 'react'
 import LRUCache from './LRUCache'
+import { createLRUStorage, LRUStorageScope, LRUStorageType } from './LRUStorage'
 import PQueue from './PQueue'
-import { History, UnregisterCallback } from 'history'
+import { UnregisterCallback } from 'history'
 import { isEnabled } from '../../utils/flags'
 import { useRuntime } from '../../core/main'
 import { isPrefetchEnabled } from '../../utils/routes'
+import {
+  getPrefetchPolicy,
+  PrefetchPolicy,
+  setPrefetchPolicySettings,
+  watchPrefetchPolicy,
+} from '../../utils/prefetchPolicy'
+import { RouterAdapter } from '../../utils/routerAdapter'
+import {
+  changeSession,
+  isBoundToCurrentSession,
+  SessionBinding,
+} from '../../utils/sessionBinding'
 
 const MAX_CONCURRENCY = 5
 
@@ -33,6 +46,7 @@ interface PrefetchCacheObject {
   matchingPage: RenderRuntime['route']
   contentResponse: ContentResponse | null
   queryData?: RenderRuntime['queryData']
+  session?: SessionBinding
 }
 
 export interface PrefetchState {
@@ -77,13 +91,86 @@ export const getCacheForPage = (page: string) => {
 
 export const usePrefetch = () => useContext(PrefetchContext)
 
+/** For prefetches made outside of components, e.g. by the runtime */
+export const getPrefetchState = () => state
+
 const getTimeout = (isMobile: boolean) => 3500 * (isMobile ? 2 : 1)
 
-export const PrefetchContextProvider: FC<{ history: History | null }> = ({
-  children,
-  history,
-}) => {
-  const { hints, getSettings } = useRuntime()
+const canStartQueue = (storeSettings: Record<string, any> | undefined) =>
+  isPrefetchEnabled(storeSettings) && getPrefetchPolicy().enabled
+
+// The queue waits for the page to load, and to settle after navigations
+let isQueueReady = false
+
+const startQueue = (storeSettings: Record<string, any> | undefined) => {
+  isQueueReady = true
+  if (canStartQueue(storeSettings)) {
+    state.queue.start()
+  }
+}
+
+const applyPrefetchPolicy = (
+  policy: PrefetchPolicy,
+  storeSettings: Record<string, any> | undefined
+) => {
+  if (!policy.enabled) {
+    state.queue.pause()
+    return
+  }
+
+  state.queue.setConcurrency(policy.concurrency)
+  if (isQueueReady && !state.queue.isActive) {
+    // The policy paused it, e.g. while the network was slow
+    startQueue(storeSettings)
+  }
+}
+
+let isPersisted = false
+
+/** Keeps the caches across full page loads, such as the ones made to change
+ * the locale or to load newer versions of apps. */
+const persistCaches = (type: LRUStorageType, scope: LRUStorageScope) => {
+  isPersisted = true
+  const restorePath = (path: string, { routeId }: PrefetchCacheObject) => {
+    state.pathsState[path] = { fetching: false, page: routeId }
+  }
+
+  const routesStorage = createLRUStorage<PrefetchRouteData>(
+    type,
+    'routes',
+    scope
+  )
+  if (routesStorage) {
+    state.routesCache.persist(routesStorage)
+  }
+
+  const pathsCaches = Object.keys(state.pathsCache) as Array<
+    keyof PrefetchState['pathsCache']
+  >
+  pathsCaches.forEach((name) => {
+    const storage = createLRUStorage<PrefetchCacheObject>(
+      type,
+      `paths.${name}`,
+      scope
+    )
+    if (storage) {
+      state.pathsCache[name].persist(storage, restorePath)
+    }
+  })
+}
+
+export const PrefetchContextProvider: FC<{
+  history: RouterAdapter | null
+  appsEtag: string
+}> = ({ children, history, appsEtag }) => {
+  const {
+    culture,
+    emitter,
+    ensureSession,
+    hints,
+    getSettings,
+    workspace,
+  } = useRuntime()
   const unlistenRef = useRef<UnregisterCallback>(null) as MutableRefObject<
     UnregisterCallback
   >
@@ -91,15 +178,43 @@ export const PrefetchContextProvider: FC<{ history: History | null }> = ({
   const storeSettings = getSettings('vtex.store')
 
   const onPageChanged = useCallback(() => {
+    isQueueReady = false
     state.queue.pause()
     state.queue.clear()
-    setTimeout(() => {
-      if (isPrefetchEnabled(storeSettings)) {
-        state.queue.start()
-      }
-    }, 1000)
+    setTimeout(() => startQueue(storeSettings), 1000)
   }, [storeSettings])
 
+  useEffect(() => {
+    setPrefetchPolicySettings(storeSettings?.prefetchPolicy)
+    applyPrefetchPolicy(getPrefetchPolicy(), storeSettings)
+    return watchPrefetchPolicy((policy) =>
+      applyPrefetchPolicy(policy, storeSettings)
+    )
+  }, [storeSettings])
+
+  useEffect(() => {
+    const onSessionChanged = () => {
+      changeSession()
+      pruneSessionData()
+    }
+
+    // Creating the session may change the segment, see ensureSessionLink
+    ensureSession()?.then(pruneSessionData, () => {})
+    emitter.addListener('session:changed', onSessionChanged)
+    return () => {
+      emitter.removeListener('session:changed', onSessionChanged)
+    }
+  }, [emitter, ensureSession])
+
+  useEffect(() => {
+    const persistence = storeSettings?.prefetchCachePersistence
+    if (!persistence || isPersisted || !isPrefetchEnabled(storeSettings)) {
+      return
+    }
+
+    persistCaches(persistence, { appsEtag, workspace, locale: culture.locale })
+  }, [appsEtag, culture.locale, storeSettings, workspace])
+
   useEffect(() => {
     if (history) {
       unlistenRef.current = history.listen(onPageChanged)
@@ -107,11 +222,7 @@ export const PrefetchContextProvider: FC<{ history: History | null }> = ({
     window.addEventListener(
       'load',
       () => {
-        if (isPrefetchEnabled(storeSettings)) {
-          setTimeout(() => {
-            state.queue.start()
-          }, getTimeout(hints.mobile))
-        }
+        setTimeout(() => startQueue(storeSettings), getTimeout(hints.mobile))
       },
       { once: true }
     )
@@ -141,6 +252,9 @@ export const getPrefetechedData = (path: string) => {
   let prefetchedPathData = null
   const cache = getCacheForPage(destinationRouteId)
   prefetchedPathData = cache.get(path)
+  if (!isBoundToCurrentSession(prefetchedPathData?.session)) {
+    prefetchedPathData = undefined
+  }
 
   const routeData = prefetchedPathData
     ? state.routesCache.get(destinationRouteId)
@@ -148,6 +262,14 @@ export const getPrefetechedData = (path: string) => {
   return { routeData, prefetchedPathData, destinationRouteId }
 }
 
+/** Stops serving prefetched data that depends on a session other than the
+ * current one, such as prices of another region. */
+const pruneSessionData = () => {
+  Object.values(state.pathsCache).forEach((cache) =>
+    cache.prune(({ session }) => !isBoundToCurrentSession(session))
+  )
+}
+
 export const clearQueue = () => {
   state.queue.clear()
 }
@@ -5,6 +5,8 @@ import { NavigateOptions } from '../../utils/pages'
 interface Props {
   waitToPrefetch?: number
   onMouseOver?: (event: React.MouseEvent) => void
+  onMouseEnter?: (event: React.MouseEvent) => void
+  onMouseLeave?: (event: React.MouseEvent) => void
   onFocus?: (event: React.FocusEvent) => void
   href: string
   page?: string
@@ -16,6 +18,8 @@ const PrefetchLink: FunctionComponent<Props> = ({
   children,
   onFocus,
   onMouseOver,
+  onMouseEnter,
+  onMouseLeave,
   options,
   page,
   ...linkElementProps
@@ -23,7 +27,11 @@ const PrefetchLink: FunctionComponent<Props> = ({
   const { href } = linkElementProps
   const ref = useRef<HTMLAnchorElement | null>(null)
 
-  const executePrefetch = usePrefetchAttempt({
+  const {
+    executePrefetch,
+    startHoverIntent,
+    cancelHoverIntent,
+  } = usePrefetchAttempt({
     ref,
     page,
     href,
@@ -39,6 +47,14 @@ const PrefetchLink: FunctionComponent<Props> = ({
         onMouseOver && onMouseOver(event)
         executePrefetch()
       }}
+      onMouseEnter={(event) => {
+        onMouseEnter && onMouseEnter(event)
+        startHoverIntent()
+      }}
+      onMouseLeave={(event) => {
+        onMouseLeave && onMouseLeave(event)
+        cancelHoverIntent()
+      }}
       onFocus={(event) => {
         onFocus && onFocus(event)
         executePrefetch()
@@ -1,5 +1,7 @@
 import hoistNonReactStatics from 'hoist-non-react-statics'
-import React, { ComponentType, useContext } from 'react'
+import React, { ComponentType, useContext, useEffect, useState } from 'react'
+
+import { QueryStore } from '../utils/queryStore'
 
 export interface RenderContextProps {
   runtime: RenderContext
@@ -12,18 +14,42 @@ export interface EmitterProps {
 export const RenderContext = React.createContext<RenderContext>({} as any)
 RenderContext.displayName = 'RenderContext'
 
+export const QueryStoreContext = React.createContext<QueryStore>(
+  new QueryStore({}, () => false)
+)
+QueryStoreContext.displayName = 'QueryStoreContext'
+
 export const RenderContextProvider: React.FC<RenderContextProps> = ({
   children,
   runtime,
-}) => (
-  <RenderContext.Provider value={runtime}>{children}</RenderContext.Provider>
-)
+}) => {
+  const { query, setQuery } = runtime
+  const [queryStore] = useState(() => new QueryStore(query, setQuery))
+  queryStore.sync(query, setQuery)
+
+  useEffect(() => {
+    queryStore.notify()
+  }, [queryStore, query])
+
+  return (
+    <RenderContext.Provider value={runtime}>
+      <QueryStoreContext.Provider value={queryStore}>
+        {children}
+      </QueryStoreContext.Provider>
+    </RenderContext.Provider>
+  )
+}
 RenderContextProvider.displayName = 'RenderContextProvider'
 
 export const useRuntime = () => {
   return useContext(RenderContext)
 }
 
+/** Query of the closest runtime, without subscribing to the whole runtime */
+export const useQueryStore = () => {
+  return useContext(QueryStoreContext)
+}
+
 export const withRuntimeContext = <TOriginalProps extends {} = {}>(
   Component: ComponentType<TOriginalProps & RenderContextProps>
 ): ComponentType<TOriginalProps> => {
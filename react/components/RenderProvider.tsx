@@ -1,11 +1,15 @@
 import debounce from 'debounce'
 import { canUseDOM } from 'exenv'
-import { History, UnregisterCallback } from 'history'
+import {
+  Action,
+  createPath,
+  TransitionPromptHook,
+  UnregisterCallback,
+} from 'history'
 import PropTypes from 'prop-types'
 import { equals, merge, mergeWith, difference } from 'ramda'
 import React, { Component, Fragment, ReactElement, Suspense } from 'react'
 import { ApolloProvider } from 'react-apollo'
-import { Helmet } from 'react-helmet'
 import { IntlProvider } from 'react-intl'
 
 import {
@@ -22,6 +26,12 @@ import {
   fetchComponents,
   isConflictingLoadedComponents,
 } from '../utils/components'
+import {
+  fetchIsAuthenticated,
+  getLoginOptions,
+  hasProtectedPages,
+  isProtectedPage,
+} from '../utils/auth'
 import { setCookie } from '../utils/cookie'
 import {
   isSiteEditorIframe,
@@ -32,6 +42,23 @@ import {
 import { isEnabled } from '../utils/flags'
 import { appendLocationSearch } from '../utils/location'
 import {
+  deferTransition,
+  hasBeforeNavigateGuards,
+  NavigationGuard,
+  runAfterNavigateGuards,
+  runBeforeNavigateGuards,
+} from '../utils/navigationGuards'
+import {
+  NavigationProgress,
+  NavigationStage,
+} from '../utils/navigationProgress'
+import {
+  getMatchingRoutes,
+  getNavigationRouteToNavigate,
+  getRedirectedPathname,
+  getParamsJSON,
+  getRouteFromPath,
+  getTypedRoute,
   goBack as pageGoBack,
   mapToQueryString,
   navigate as pageNavigate,
@@ -40,22 +67,48 @@ import {
   NavigationRouteModifier,
   queryStringToMap,
   scrollTo as pageScrollTo,
+  setRouteMatchingOptions,
 } from '../utils/pages'
 import {
   fetchDefaultPages,
   fetchNavigationPage,
   fetchServerPage,
 } from '../utils/routes'
+import {
+  getScrollPosition,
+  restoreScrollPosition,
+  saveScrollPosition,
+  ScrollPosition,
+  setupScrollRestoration,
+} from '../utils/scrollRestoration'
+import { getPageExtensions, PageCache } from '../utils/pageCache'
+import { createEntryKey, NavigationHistory } from '../utils/navigationHistory'
+import {
+  PersistingQueries,
+  PersistingQueryRule,
+} from '../utils/persistingQueries'
+import { isBrowserRouterAdapter, RouterAdapter } from '../utils/routerAdapter'
+import {
+  getInternalRedirectPath,
+  getRelativePath,
+  isRedirectLoop,
+  MAX_REDIRECTS,
+} from '../utils/redirects'
 import { TreePathContextProvider } from '../utils/treePath'
 import BuildStatus from './BuildStatus'
+import BrokenLinks from './BrokenLinks'
 import ExtensionManager from './ExtensionPoint/ExtensionManager'
 import ExtensionPoint from './ExtensionPoint'
 import { RenderContextProvider } from './RenderContext'
 import RenderPage from './RenderPage'
+import RouteAnnouncer from './RouteAnnouncer'
+import RouteHead from './RouteHead'
 import {
   getPrefetechedData,
+  getPrefetchState,
   PrefetchContextProvider,
 } from './Prefetch/PrefetchContext'
+import { prefetchNavigation } from '../hooks/prefetch'
 import { withDevice, WithDeviceProps, DeviceInfo } from '../utils/withDevice'
 import { ApolloClientFunctions } from '../utils/client'
 
@@ -71,7 +124,7 @@ const InspectorPopover = React.lazy(
 
 interface Props {
   children: ReactElement<any> | null
-  history: History | null
+  history: RouterAdapter | null
   root: string
   runtime: RenderRuntime
   sessionPromise: Promise<void>
@@ -101,10 +154,15 @@ export interface RenderProviderState {
   blocksTree?: RenderRuntime['blocksTree']
   blocks?: RenderRuntime['blocks']
   contentMap?: RenderRuntime['contentMap']
+  navigationError: NavigationError | null
 }
 
 const SEND_INFO_DEBOUNCE_MS = 100
 const DISABLE_PREFETCH_PAGES = '__disablePrefetchPages'
+const DEFAULT_NOT_FOUND_PAGE = 'store.not-found'
+const DEFAULT_LOGIN_PAGE = 'store.login'
+const MAX_NAVIGATION_ATTEMPTS = 3
+const NAVIGATION_RETRY_DELAY_MS = 1000
 
 const noop = () => {}
 
@@ -119,15 +177,23 @@ const areOptionsDifferent = (a: NavigateOptions, b: NavigateOptions) => {
 }
 
 interface NavigationState {
+  /** Incremented on every page change, so the responses of superseded
+   * navigations can be told apart and ignored */
+  id: number
   isNavigating: boolean
   lastOptions?: NavigateOptions
 }
 
+interface InFlightNavigation {
+  id: number
+  abortController?: AbortController
+}
+
 export class RenderProvider extends Component<
   Props & WithDeviceProps,
   RenderProviderState
 > {
-  navigationState: NavigationState = { isNavigating: false }
+  navigationState: NavigationState = { id: 0, isNavigating: false }
   public static childContextTypes = {
     account: PropTypes.string,
     addMessages: PropTypes.func,
@@ -147,6 +213,7 @@ export class RenderProvider extends Component<
       isMobile: PropTypes.bool,
     }),
     isMobile: PropTypes.bool,
+    isAuthenticated: PropTypes.func,
     emitter: PropTypes.object,
     ensureSession: PropTypes.func,
     extensions: PropTypes.object,
@@ -159,6 +226,8 @@ export class RenderProvider extends Component<
     inspect: PropTypes.bool,
     messages: PropTypes.object,
     navigate: PropTypes.func,
+    navigationError: PropTypes.object,
+    navigationHistory: PropTypes.object,
     onPageChanged: PropTypes.func,
     page: PropTypes.string,
     pages: PropTypes.object,
@@ -166,11 +235,15 @@ export class RenderProvider extends Component<
     platform: PropTypes.string,
     prefetchDefaultPages: PropTypes.func,
     addNavigationRouteModifier: PropTypes.func,
+    addNavigationGuard: PropTypes.func,
+    addPersistingQueryKey: PropTypes.func,
     prefetchPage: PropTypes.func,
+    prefetchPath: PropTypes.func,
     preview: PropTypes.bool,
     production: PropTypes.bool,
     publicEndpoint: PropTypes.string,
     query: PropTypes.object,
+    redirectToLogin: PropTypes.func,
     renderMajor: PropTypes.number,
     rootPath: PropTypes.string,
     route: PropTypes.object,
@@ -210,11 +283,32 @@ export class RenderProvider extends Component<
   private rendered!: boolean
   private sessionPromise: Promise<void>
   private unlisten!: UnregisterCallback | null
+  private unblock: UnregisterCallback | null = null
   private apolloClient: ApolloClientType
   private hydrateApollo: ApolloClientFunctions['hydrate']
   private prefetchRoutes: Set<string>
   public navigationRouteModifiers: Set<NavigationRouteModifier>
+  public navigationGuards: Set<NavigationGuard>
   private navigationModifierOptions: Record<string, NavigationRouteChange>
+  private navigationAction: Action = 'PUSH'
+  private inFlightNavigation: InFlightNavigation | null = null
+  private locationKey?: string
+  private pendingScrollPosition: ScrollPosition | null = null
+  private teardownScrollRestoration: () => void = noop
+  private navigationProgress = new NavigationProgress()
+  /** Paths already redirected by the server during the current navigation */
+  private redirectChain: string[] = []
+  private followingRedirect = false
+  private navigationFailures: { key?: string; count: number } = { count: 0 }
+  private pageCache: PageCache | null
+  private navigationHistory = new NavigationHistory()
+  /** Key of the current entry on `navigationHistory` */
+  private historyEntryKey = ''
+  private persistingQueries: PersistingQueries
+  private removeAuthGuard: (() => void) | null = null
+  private guardedPages?: Pages
+  /** Reused until the session changes */
+  private authenticationPromise: Promise<boolean> | null = null
   private fetcher: GlobalFetch['fetch']
 
   public constructor(props: Props & WithDeviceProps) {
@@ -243,6 +337,10 @@ export class RenderProvider extends Component<
     const { apollo, history, deviceInfo, sessionPromise } = props
     const ignoreCanonicalReplacement = query && query.map
     this.fetcher = fetch
+    this.persistingQueries = new PersistingQueries(
+      settings?.['vtex.store']?.persistingQueryKeys
+    )
+    setRouteMatchingOptions(pages, settings?.['vtex.store']?.routeMatching)
 
     if (binding && canUseDOM) {
       setCookie('vtex_binding_address', binding.canonicalBaseAddress)
@@ -259,7 +357,7 @@ export class RenderProvider extends Component<
             : history.location.search,
         pathname:
           ignoreCanonicalReplacement || !route.canonicalPath
-            ? history.location.pathname
+            ? getRedirectedPathname(history.location.pathname, pages)
             : rootPath + route.canonicalPath,
         state: {
           navigationRoute: {
@@ -274,8 +372,10 @@ export class RenderProvider extends Component<
       if (!equals(history.location as RenderHistoryLocation, renderLocation)) {
         history.replace(renderLocation)
       }
-      // backwards compatibility
-      window.browserHistory = global.browserHistory = history
+      // backwards compatibility, other routers may not be a whole `History`
+      if (isBrowserRouterAdapter(history)) {
+        window.browserHistory = global.browserHistory = history
+      }
     }
 
     // todo: reload window if client-side created a segment different from server-side
@@ -303,14 +403,18 @@ export class RenderProvider extends Component<
       preview: false,
       production,
       query,
-      route,
+      route: getTypedRoute(route, pages),
       settings: settings || {},
       inspect: false,
+      navigationError: null,
     }
 
     this.prefetchRoutes = new Set<string>()
     this.navigationRouteModifiers = new Set()
+    this.navigationGuards = new Set()
     this.navigationModifierOptions = {}
+    const pageCacheOptions = settings?.['vtex.store']?.pageCache
+    this.pageCache = pageCacheOptions ? new PageCache(pageCacheOptions) : null
   }
 
   public componentDidMount() {
@@ -318,16 +422,33 @@ export class RenderProvider extends Component<
     const { history, runtime } = this.props
     const { production, emitter, publicEndpoint } = runtime
 
+    if (history && !history.location.key) {
+      // The first entry of a tab has no key, so back/forward to it couldn't
+      // be told apart from other keyless entries
+      history.replace({ ...history.location })
+    }
     this.unlisten = history && history.listen(this.onPageChanged)
+    if (history) {
+      this.locationKey = history.location.key
+      this.teardownScrollRestoration = setupScrollRestoration()
+      // A full page load may be a reload or a back/forward to a known entry
+      this.recordNavigation('POP', history.location)
+      this.navigationHistory.update(this.historyEntryKey, {
+        title: this.state.route.title,
+      })
+    }
     emitter.addListener('localesChanged', this.onLocaleSelected)
+    emitter.addListener('session:changed', this.onSessionChanged)
 
     if (!production) {
+      window.__RENDER_MATCHING_ROUTES__ = this.getMatchingRoutes
       emitter.addListener('extensionsUpdated', this.updateRuntime)
       emitter.addListener('blocksUpdated', this.updateRuntime)
       emitter.addListener('styleOverrides', hotReloadOverrides)
       emitter.addListener('styleTachyonsUpdate', hotReloadTachyons)
     }
 
+    this.syncAuthGuard()
     this.sendInfoFromIframe()
     this.prefetchPages()
 
@@ -363,9 +484,17 @@ export class RenderProvider extends Component<
     if (this.unlisten) {
       this.unlisten()
     }
+    if (this.unblock) {
+      this.unblock()
+    }
+    this.teardownScrollRestoration()
     emitter.removeListener('localesChanged', this.onLocaleSelected)
+    emitter.removeListener('session:changed', this.onSessionChanged)
 
     if (!production) {
+      if (window.__RENDER_MATCHING_ROUTES__ === this.getMatchingRoutes) {
+        delete window.__RENDER_MATCHING_ROUTES__
+      }
       emitter.removeListener('extensionsUpdated', this.updateRuntime)
       emitter.removeListener('blocksUpdated', this.updateRuntime)
       emitter.removeListener('styleOverrides', hotReloadOverrides)
@@ -390,6 +519,7 @@ export class RenderProvider extends Component<
       route,
       query,
       defaultExtensions,
+      navigationError,
     } = this.state
 
     const {
@@ -427,8 +557,11 @@ export class RenderProvider extends Component<
       hints,
       history,
       inspect,
+      isAuthenticated: this.isAuthenticated,
       messages,
       navigate: this.navigate,
+      navigationError,
+      navigationHistory: this.navigationHistory,
       onPageChanged: this.onPageChanged,
       page,
       pages,
@@ -436,12 +569,16 @@ export class RenderProvider extends Component<
       platform,
       prefetchDefaultPages: this.prefetchDefaultPages,
       addNavigationRouteModifier: this.addNavigationRouteModifier,
+      addNavigationGuard: this.addNavigationGuard,
+      addPersistingQueryKey: this.addPersistingQueryKey,
       navigationRouteModifiers: this.navigationRouteModifiers,
       prefetchPage: this.prefetchPage,
+      prefetchPath: this.prefetchPath,
       preview,
       production,
       publicEndpoint,
       query,
+      redirectToLogin: this.redirectToLogin,
       renderMajor,
       rootPath,
       route,
@@ -464,9 +601,74 @@ export class RenderProvider extends Component<
   }
 
   public patchSession = (data?: any) => {
-    return this.sessionPromise.then(() =>
-      canUseDOM ? window.__RENDER_8_SESSION__.patchSession(data) : undefined
-    )
+    return this.sessionPromise
+      .then(() =>
+        canUseDOM ? window.__RENDER_8_SESSION__.patchSession(data) : undefined
+      )
+      .then(() => {
+        // The segment, e.g. the region, or the user may have changed
+        this.props.runtime.emitter.emit('session:changed')
+      })
+  }
+
+  /** Never rejects, failing to ensure the session counts as logged out */
+  public isAuthenticated = () => {
+    if (!this.authenticationPromise) {
+      this.authenticationPromise = this.ensureSession().then(
+        () => fetchIsAuthenticated(this.fetcher, this.props.runtime.rootPath),
+        () => false
+      )
+    }
+    return this.authenticationPromise
+  }
+
+  /** The user may have logged in or out */
+  private onSessionChanged = () => {
+    this.authenticationPromise = null
+  }
+
+  public redirectToLogin = (
+    returnUrl = `${window.location.pathname}${window.location.search}${window.location.hash}`
+  ) => this.navigate(getLoginOptions(this.getLoginPage(), returnUrl))
+
+  private getLoginPage = (): string =>
+    this.getSettings('vtex.store')?.loginPage ?? DEFAULT_LOGIN_PAGE
+
+  /** Sends logged out users to the login page when they navigate to a page
+   * with `auth`, either through `navigate` or the back/forward buttons. */
+  private authGuard: NavigationGuard = {
+    beforeNavigate: async ({ route, query }) => {
+      if (
+        !isProtectedPage(this.state.pages, route.id) ||
+        (await this.isAuthenticated())
+      ) {
+        return true
+      }
+
+      return getLoginOptions(
+        this.getLoginPage(),
+        query ? `${route.path}?${query}` : route.path
+      )
+    },
+  }
+
+  /** The auth guard makes every navigation wait for the guards, so it is only
+   * added while some page needs it. */
+  private syncAuthGuard = () => {
+    const { pages } = this.state
+    if (!this.props.history || pages === this.guardedPages) {
+      return
+    }
+
+    this.guardedPages = pages
+    const shouldGuard = hasProtectedPages(pages)
+
+    if (shouldGuard && !this.removeAuthGuard) {
+      this.removeAuthGuard = this.addNavigationGuard(this.authGuard)
+    } else if (!shouldGuard && this.removeAuthGuard) {
+      this.removeAuthGuard()
+      this.removeAuthGuard = null
+    }
   }
 
   public getCustomMessages = (locale: string) => {
@@ -493,11 +695,34 @@ export class RenderProvider extends Component<
     return customMessages
   }
 
+  private getMatchingRoutes = (path: string) =>
+    getMatchingRoutes(path, this.state.pages)
+
   public goBack = () => {
     const { history } = this.props
     return pageGoBack(history)
   }
 
+  /** Records every history transition, including the ones of other routers
+   * and `preventRemount` navigations, so the stack follows the browser's */
+  private recordNavigation = (
+    action: Action,
+    location: RenderHistoryLocation
+  ) => {
+    const { page, route } = this.state
+    const navigationRoute = location.state?.navigationRoute
+
+    this.historyEntryKey = location.key ?? createEntryKey()
+    this.navigationHistory.record(action, {
+      key: this.historyEntryKey,
+      routeId: navigationRoute?.id || page,
+      params: navigationRoute?.params ?? route.params,
+      path: location.pathname,
+      query: location.search,
+      timestamp: Date.now(),
+    })
+  }
+
   public showPageLoading = () => {
     this.setState({ preview: true })
   }
@@ -539,17 +764,20 @@ export class RenderProvider extends Component<
       scrollOptions,
       rootPath,
       modifiers: this.navigationRouteModifiers,
+      locale: this.state.culture.locale,
+      persistingQueries: this.persistingQueries,
     })
   }
 
   public navigate = (options: NavigateOptions) => {
     const {
-      history,
       runtime: { rootPath },
     } = this.props
-    const { pages } = this.state
     options.rootPath = rootPath
     options.modifiers = this.navigationRouteModifiers
+    options.notFoundPage = this.getNotFoundPage()
+    options.locale = this.state.culture.locale
+    options.persistingQueries = this.persistingQueries
 
     this.navigationModifierOptions = {
       ...this.navigationModifierOptions,
@@ -566,11 +794,198 @@ export class RenderProvider extends Component<
     }
 
     this.navigationState = {
+      ...this.navigationState,
       isNavigating: true,
       lastOptions: options,
     }
 
-    return pageNavigate(history, pages, options)
+    return this.navigateThroughGuards(options)
+  }
+
+  /** Every navigation the runtime starts goes through here, redirects
+   * included, so none of them skips the guards. `redirects` counts the guard
+   * redirects that led to it. */
+  private navigateThroughGuards = (
+    options: NavigateOptions,
+    pages: Pages = this.state.pages,
+    redirects = 0
+  ) => {
+    const { history } = this.props
+    const navigationRoute =
+      history && hasBeforeNavigateGuards(this.navigationGuards)
+        ? getNavigationRouteToNavigate(pages, options)
+        : null
+
+    if (!navigationRoute || navigationRoute.hash) {
+      return pageNavigate(history, pages, options)
+    }
+
+    this.guardNavigation(options, navigationRoute, pages, redirects)
+    return true
+  }
+
+  private guardNavigation = async (
+    options: NavigateOptions,
+    navigationRoute: NavigationRoute & { query?: string },
+    pages: Pages,
+    redirects: number
+  ) => {
+    const { id, params, path, query = '' } = navigationRoute
+    const decision = await runBeforeNavigateGuards(this.navigationGuards, {
+      action: options.replace ? 'REPLACE' : 'PUSH',
+      route: { id, params, path },
+      query,
+    })
+
+    const isLoop = decision.type === 'redirect' && redirects >= MAX_REDIRECTS
+    if (isLoop) {
+      console.error(`Navigation guards redirected ${redirects} times in a row`)
+    }
+
+    if (decision.type === 'cancel' || isLoop) {
+      this.navigationState = { ...this.navigationState, isNavigating: false }
+      this.followingRedirect = false
+      return
+    }
+
+    if (decision.type === 'allow') {
+      pageNavigate(this.props.history, pages, options)
+      return
+    }
+
+    const nextOptions = this.getRedirectOptions(decision.options)
+    this.navigationState = {
+      ...this.navigationState,
+      isNavigating: true,
+      lastOptions: nextOptions,
+    }
+    this.navigateThroughGuards(nextOptions, pages, redirects + 1)
+  }
+
+  private getRedirectOptions = (options: NavigateOptions): NavigateOptions => {
+    const {
+      runtime: { rootPath },
+    } = this.props
+
+    return {
+      ...options,
+      rootPath,
+      modifiers: this.navigationRouteModifiers,
+      modifiersOptions: this.navigationModifierOptions,
+      showPageLoading: this.showPageLoading,
+      notFoundPage: this.getNotFoundPage(),
+      locale: this.state.culture.locale,
+      persistingQueries: this.persistingQueries,
+    }
+  }
+
+  private getNotFoundPage = (): string =>
+    this.getSettings('vtex.store')?.notFoundPage ?? DEFAULT_NOT_FOUND_PAGE
+
+  /** Follows a server redirect with `history.replace` when it points to a
+   * known route, so the page isn't reloaded. Anything else, including
+   * redirect loops, is left to the browser. */
+  private followRedirect = (from: string, to: string, pages: Pages) => {
+    const {
+      runtime: { rootPath },
+    } = this.props
+    const internalPath = getInternalRedirectPath(to, pages, rootPath)
+    const redirectChain = [
+      ...this.redirectChain,
+      getRelativePath(from, rootPath) ?? from,
+    ]
+
+    const isLoop = !!internalPath && isRedirectLoop(redirectChain, internalPath)
+
+    if (isLoop) {
+      console.error(
+        `Redirect loop detected: ${[...redirectChain, internalPath].join(
+          ' -> '
+        )}`
+      )
+    }
+
+    if (!internalPath || isLoop) {
+      this.redirectChain = []
+      if (this.canLoadFullPage()) {
+        window.location.href = to
+      } else {
+        this.setState({
+          navigationError: {
+            error: new Error(`Redirect to ${to} can't be followed`),
+            path: to,
+            attempts: 1,
+          },
+          preview: false,
+        })
+      }
+      return
+    }
+
+    this.redirectChain = redirectChain
+    this.followingRedirect = true
+    this.navigateThroughGuards(
+      this.getRedirectOptions({ to: internalPath, replace: true }),
+      pages
+    )
+  }
+
+  /** Blocks back/forward navigations while the navigation guards decide
+   * whether they should go through. */
+  private onHistoryTransition: TransitionPromptHook = (
+    location: RenderHistoryLocation,
+    action
+  ) => {
+    if (action !== 'POP') {
+      return undefined
+    }
+
+    const { pages } = this.state
+    const route = location.state?.navigationRoute ??
+      getRouteFromPath(location.pathname, pages) ?? {
+        id: '',
+        params: {},
+        path: location.pathname,
+      }
+
+    return deferTransition(async () => {
+      const decision = await runBeforeNavigateGuards(this.navigationGuards, {
+        action,
+        route,
+        query: location.search.replace(/^\?/, ''),
+      })
+
+      if (decision.type === 'redirect') {
+        const redirectOptions = this.getRedirectOptions(decision.options)
+        window.setTimeout(() =>
+          this.navigateThroughGuards(redirectOptions, this.state.pages, 1)
+        )
+      }
+
+      return decision.type === 'allow'
+    })
+  }
+
+  public addNavigationGuard = (guard: NavigationGuard) => {
+    const { history } = this.props
+    this.navigationGuards.add(guard)
+
+    if (
+      history &&
+      !this.unblock &&
+      hasBeforeNavigateGuards(this.navigationGuards)
+    ) {
+      this.unblock = history.block(this.onHistoryTransition)
+    }
+
+    return () => {
+      this.navigationGuards.delete(guard)
+
+      if (this.unblock && !hasBeforeNavigateGuards(this.navigationGuards)) {
+        this.unblock()
+        this.unblock = null
+      }
+    }
   }
 
   private updateDeviceBlocks = async (deviceInfo: DeviceInfo) => {
@@ -592,6 +1007,9 @@ export class RenderProvider extends Component<
     }))
   }
 
+  public addPersistingQueryKey = (key: string, rule?: PersistingQueryRule) =>
+    this.persistingQueries.add(key, rule)
+
   public addNavigationRouteModifier = (modifier: NavigationRouteModifier) => {
     this.navigationRouteModifiers.add(modifier)
   }
@@ -628,17 +1046,145 @@ export class RenderProvider extends Component<
     }
   }
 
+  private restoreScroll = (scrollOptions?: RenderScrollOptions) => {
+    const position = this.pendingScrollPosition
+    this.pendingScrollPosition = null
+
+    if (!position) {
+      this.scrollTo(scrollOptions)
+      return
+    }
+
+    window.setTimeout(() => restoreScrollPosition(position), 0)
+  }
+
+  private getNavigationScrollOptions = (
+    location: RenderHistoryLocation,
+    action: Action
+  ): RenderScrollOptions | undefined => {
+    const { scrollOptions, scrollRestoration = 'auto' } = location.state ?? {}
+
+    if (scrollRestoration === 'manual') {
+      return false
+    }
+
+    if (scrollRestoration === 'top') {
+      return { top: 0, left: 0 }
+    }
+
+    this.pendingScrollPosition =
+      action === 'POP' ? getScrollPosition(location.key) : null
+    return scrollOptions
+  }
+
   public afterPageChanged = (
     route: string,
     scrollOptions?: RenderScrollOptions
   ) => {
-    this.navigationState = { isNavigating: false }
+    this.navigationState = { ...this.navigationState, isNavigating: false }
+    this.navigationFailures = { count: 0 }
+    if (this.state.navigationError) {
+      this.setState({ navigationError: null })
+    }
     this.replaceRouteClass(route)
-    this.scrollTo(scrollOptions)
+    this.restoreScroll(scrollOptions)
     this.sendInfoFromIframe()
+    this.navigationHistory.update(this.historyEntryKey, {
+      routeId: this.state.page,
+      params: this.state.route.params,
+      title: this.state.route.title,
+    })
+
+    this.markNavigationStage(this.navigationState.id, 'committed')
+    const timings = this.navigationProgress.getTimings()
+    this.props.runtime.emitter.emit('navigation:timing', {
+      action: this.navigationAction,
+      page: this.state.page,
+      path: this.state.route.path,
+      timings,
+    })
+    runAfterNavigateGuards(this.navigationGuards, {
+      action: this.navigationAction,
+      page: this.state.page,
+      route: this.state.route,
+      query: this.state.query,
+      timings,
+    })
+  }
+
+  /** Reports how far along the navigation is, which drives the loading bar */
+  private markNavigationStage = (
+    navigationId: number,
+    stage: NavigationStage
+  ) => {
+    if (this.isStaleNavigation(navigationId)) {
+      return
+    }
+
+    const progress = this.navigationProgress.mark(stage)
+    this.props.runtime.emitter.emit('navigation:progress', { stage, progress })
+  }
+
+  /** Aborts the page fetch of the navigation in progress, if any, and
+   * hands out the id of the one that is starting. */
+  private startNavigation = () => {
+    const superseded = this.inFlightNavigation
+    if (superseded?.abortController) {
+      superseded.abortController.abort()
+    }
+    this.inFlightNavigation = null
+
+    const id = this.navigationState.id + 1
+    this.navigationState = { ...this.navigationState, id }
+    return { navigationId: id, superseded: !!superseded }
+  }
+
+  private trackNavigation = (navigationId: number) => {
+    const abortController =
+      typeof AbortController !== 'undefined' ? new AbortController() : undefined
+    this.inFlightNavigation = { id: navigationId, abortController }
+    return abortController?.signal
+  }
+
+  private isStaleNavigation = (navigationId: number) =>
+    navigationId !== this.navigationState.id
+
+  public onPageChanged = (
+    location: RenderHistoryLocation,
+    action: Action = 'PUSH'
+  ) => {
+    const { state } = location
+    const previousKey = this.locationKey
+
+    saveScrollPosition(previousKey)
+    this.locationKey = location.key
+    this.recordNavigation(action, location)
+
+    // In case of other router's navigation, or when preventRemount is true, do nothing
+    if (!state || !state.renderRouting || state.preventRemount) {
+      return
+    }
+
+    this.savePageSnapshot(previousKey)
+
+    if (!this.followingRedirect) {
+      this.redirectChain = []
+    }
+    this.followingRedirect = false
+
+    if (this.navigationFailures.key !== location.key) {
+      this.navigationFailures = { count: 0 }
+      if (this.state.navigationError) {
+        this.setState({ navigationError: null })
+      }
+    }
+
+    return this.loadPage(location, action)
   }
 
-  public onPageChanged = (location: RenderHistoryLocation) => {
+  /** Renders the page of the location, fetching it when it isn't loaded. It
+   * is all a retry of a failed navigation has to do again. */
+  private loadPage = (location: RenderHistoryLocation, action: Action) => {
     const {
       runtime: { renderMajor, query: queryFromRuntime },
     } = this.props
@@ -652,12 +1198,31 @@ export class RenderProvider extends Component<
       deviceInfo,
     } = this.state
     const { state } = location
-
-    // In case of other router's navigation, or when preventRemount is true, do nothing
-    if (!state || !state.renderRouting || state.preventRemount) {
+    if (!state) {
       return
     }
 
+    this.navigationAction = action
+    this.navigationProgress = new NavigationProgress()
+    const { navigationId, superseded } = this.startNavigation()
+    const scrollOptions = this.getNavigationScrollOptions(location, action)
+
+    const snapshot =
+      action === 'POP' && location.key && this.pageCache?.get(location.key)
+    if (snapshot) {
+      return this.setState(
+        (prevState) => ({
+          ...prevState,
+          extensions: { ...prevState.extensions, ...snapshot.extensions },
+          page: snapshot.page,
+          preview: false,
+          query: snapshot.query,
+          route: snapshot.route,
+        }),
+        () => this.afterPageChanged(snapshot.page, scrollOptions)
+      )
+    }
+
     const { navigationRoute, fetchPage } = state
     const { id: maybePage, params } = navigationRoute
     const transientRoute = { ...route, ...navigationRoute }
@@ -678,12 +1243,14 @@ export class RenderProvider extends Component<
           page,
           query,
           route: transientRoute,
+          // The loading bar of a superseded navigation would never go away
+          preview: this.state.preview && !superseded,
         },
-        () => this.afterPageChanged(page, state.scrollOptions)
+        () => this.afterPageChanged(page, scrollOptions)
       )
     }
 
-    const paramsJSON = JSON.stringify(params)
+    const paramsJSON = getParamsJSON(page, params, pagesState)
     const apolloClient = this.apolloClient
     const routeId = page
 
@@ -717,7 +1284,15 @@ export class RenderProvider extends Component<
         }
       }
 
+      this.trackNavigation(navigationId)
       this.hydrateApollo(prefetchedPathData.queryData).then(() => {
+        if (this.isStaleNavigation(navigationId)) {
+          return
+        }
+
+        this.markNavigationStage(navigationId, 'hydrated')
+
+        this.inFlightNavigation = null
         this.setState(
           (state) => ({
             ...state,
@@ -728,14 +1303,9 @@ export class RenderProvider extends Component<
             page: routeId,
             preview: false,
             query,
-            route: matchingPage,
+            route: getTypedRoute(matchingPage, state.pages),
           }),
-          () => {
-            this.navigationState = { isNavigating: false }
-            this.replaceRouteClass(routeId)
-            this.sendInfoFromIframe()
-            this.scrollTo(state.scrollOptions)
-          }
+          () => this.afterPageChanged(routeId, scrollOptions)
         )
       })
 
@@ -750,6 +1320,7 @@ export class RenderProvider extends Component<
 
     // If workspace is set via querystring, keep it during navigation
     const workspaceFromQuery = queryFromRuntime?.workspace
+    const signal = this.trackNavigation(navigationId)
 
     const navigationPromise = isEnabled('RENDER_NAVIGATION')
       ? fetchServerPage({
@@ -758,6 +1329,8 @@ export class RenderProvider extends Component<
           query,
           workspace: workspaceFromQuery,
           deviceInfo,
+          signal,
+          followRedirects: false,
         }).then(
           async ({
             appsEtag,
@@ -768,7 +1341,25 @@ export class RenderProvider extends Component<
             pages,
             settings,
             queryData,
+            redirect,
           }: ParsedServerPageResponse) => {
+            if (this.isStaleNavigation(navigationId)) {
+              return
+            }
+
+            setRouteMatchingOptions(
+              pages,
+              settings?.['vtex.store']?.routeMatching
+            )
+            if (redirect) {
+              this.followRedirect(
+                `${location.pathname}${location.search}`,
+                redirect,
+                pages
+              )
+              return
+            }
+
             if (
               isConflictingLoadedComponents(components, this.state.components)
             ) {
@@ -777,11 +1368,20 @@ export class RenderProvider extends Component<
               return new Promise(() => {})
             }
 
+            this.markNavigationStage(navigationId, 'fetched')
             await Promise.all([
-              this.hydrateApollo(queryData),
-              this.fetchComponents(components, extensions),
+              this.hydrateApollo(queryData).then(() =>
+                this.markNavigationStage(navigationId, 'hydrated')
+              ),
+              this.fetchComponents(components, extensions).then(() =>
+                this.markNavigationStage(navigationId, 'assetsLoaded')
+              ),
             ])
 
+            if (this.isStaleNavigation(navigationId)) {
+              return
+            }
+
             this.setState(
               (state) => ({
                 ...state,
@@ -795,15 +1395,10 @@ export class RenderProvider extends Component<
                 pages,
                 preview: false,
                 query,
-                route: matchingPage,
+                route: getTypedRoute(matchingPage, pages),
                 settings,
               }),
-              () => {
-                this.navigationState = { isNavigating: false }
-                this.replaceRouteClass(matchingPage.routeId)
-                this.sendInfoFromIframe()
-                this.scrollTo(state.scrollOptions)
-              }
+              () => this.afterPageChanged(matchingPage.routeId, scrollOptions)
             )
           }
         )
@@ -829,8 +1424,18 @@ export class RenderProvider extends Component<
             settings,
           }: ParsedPageQueryResponse) => {
             const updatedRoute = { ...transientRoute, ...matchingPage }
+            this.markNavigationStage(navigationId, 'fetched')
             await this.fetchComponents(components, extensions)
+            this.markNavigationStage(navigationId, 'assetsLoaded')
+
+            if (this.isStaleNavigation(navigationId)) {
+              return
+            }
 
+            setRouteMatchingOptions(
+              pages,
+              settings?.['vtex.store']?.routeMatching
+            )
             this.setState(
               {
                 appsEtag,
@@ -846,21 +1451,90 @@ export class RenderProvider extends Component<
                 route: updatedRoute,
                 settings,
               },
-              () => {
-                this.navigationState = { isNavigating: false }
-                this.replaceRouteClass(page)
-                this.sendInfoFromIframe()
-                this.scrollTo(state.scrollOptions)
-              }
+              () => this.afterPageChanged(page, scrollOptions)
             )
           }
         )
-    navigationPromise.finally(() => {
-      if (this.navigationState.isNavigating) {
-        this.navigationState = { isNavigating: false }
+    const currentNavigationPromise = navigationPromise.catch((error) => {
+      // Superseded navigations are aborted on purpose
+      if (!this.isStaleNavigation(navigationId)) {
+        this.onNavigationError(error, location, action)
+      }
+    })
+
+    currentNavigationPromise.finally(() => {
+      if (this.inFlightNavigation?.id === navigationId) {
+        this.inFlightNavigation = null
+      }
+      if (
+        !this.isStaleNavigation(navigationId) &&
+        this.navigationState.isNavigating
+      ) {
+        this.navigationState = { ...this.navigationState, isNavigating: false }
       }
     })
-    return navigationPromise
+    return currentNavigationPromise
+  }
+
+  /** Snapshots the page being left, unless it is still loading or its content
+   * depends on conditions that may have changed when the user comes back. */
+  private savePageSnapshot = (key?: string) => {
+    const { extensions, page, pages, preview, query, route } = this.state
+    if (!this.pageCache || !key || preview || pages[page]?.allowConditions) {
+      return
+    }
+
+    this.pageCache.set(key, {
+      page,
+      route,
+      query,
+      extensions: getPageExtensions(extensions, page),
+    })
+  }
+
+  /** Only routers of the browser's URL may fall back to loading a full page,
+   * others would send the host page away */
+  private canLoadFullPage = () => {
+    const { history } = this.props
+    return !!history && isBrowserRouterAdapter(history)
+  }
+
+  /** Retries failed navigations a few times before giving up on client side
+   * navigation and loading the target URL from scratch. */
+  private onNavigationError = (
+    error: Error,
+    location: RenderHistoryLocation,
+    action: Action
+  ) => {
+    const attempts = this.navigationFailures.count + 1
+    const willRetry = attempts < MAX_NAVIGATION_ATTEMPTS
+    const navigationError = { error, path: createPath(location), attempts }
+
+    this.navigationFailures = { key: location.key, count: attempts }
+    this.props.runtime.emitter.emit('navigation:error', {
+      ...navigationError,
+      willRetry,
+    })
+    console.error(
+      `Navigation to ${navigationError.path} failed (attempt ${attempts} of ${MAX_NAVIGATION_ATTEMPTS}).`,
+      error
+    )
+
+    if (!willRetry) {
+      this.setState({ navigationError, preview: false })
+      if (this.canLoadFullPage()) {
+        window.location.href = navigationError.path
+      }
+      return
+    }
+
+    this.setState({ navigationError })
+    window.setTimeout(() => {
+      // The user may have navigated elsewhere in the meantime
+      if (this.locationKey === location.key) {
+        this.loadPage(location, action)
+      }
+    }, NAVIGATION_RETRY_DELAY_MS * attempts)
   }
 
   public prefetchPage = (pageName: string) => {
@@ -874,6 +1548,33 @@ export class RenderProvider extends Component<
     }
   }
 
+  public prefetchPath = (
+    target: string | PrefetchPathTarget,
+    { priority }: PrefetchPathOptions = {}
+  ) => {
+    const {
+      runtime: { hints, renderMajor, rootPath },
+    } = this.props
+    const { culture, pages } = this.state
+    const options: NavigateOptions =
+      typeof target === 'string' ? { to: target } : { ...target }
+    options.rootPath = rootPath
+    options.locale = culture.locale
+
+    return prefetchNavigation({
+      client: this.apolloClient,
+      options,
+      page: options.page,
+      pages,
+      prefetchState: getPrefetchState(),
+      hints,
+      renderMajor,
+      storeSettings: this.getSettings('vtex.store'),
+      navigationRouteModifiers: this.navigationRouteModifiers,
+      priority,
+    })
+  }
+
   public prefetchDefaultPages = async (routeIds: string[]) => {
     const {
       runtime: { query },
@@ -977,7 +1678,7 @@ export class RenderProvider extends Component<
     } = this.state
     const declarer = pagesState[page] && pagesState[page].declarer
     const { pathname } = window.location
-    const paramsJSON = JSON.stringify(route.params || {})
+    const paramsJSON = getParamsJSON(page, route.params, pagesState)
 
     // If workspace is set via querystring, keep it during navigation
     const workspaceFromQuery = queryFromRuntime?.workspace
@@ -1012,6 +1713,7 @@ export class RenderProvider extends Component<
           ...options,
         })
 
+    setRouteMatchingOptions(pages, settings?.['vtex.store']?.routeMatching)
     await this.fetchComponents(components, extensions)
 
     await new Promise<void>((resolve) => {
@@ -1120,6 +1822,7 @@ export class RenderProvider extends Component<
   )
 
   public componentDidUpdate() {
+    this.syncAuthGuard()
     if (!equals(this.state.deviceInfo, this.props.deviceInfo)) {
       this.updateDevice(this.props.deviceInfo)
     }
@@ -1130,7 +1833,6 @@ export class RenderProvider extends Component<
     const {
       culture: { locale },
       messages,
-      pages,
       page,
       query,
       production,
@@ -1146,7 +1848,10 @@ export class RenderProvider extends Component<
       React.cloneElement(children as ReactElement<any>, { query })
     ) : (
       <div className="render-provider">
-        <Helmet title={pages[page] && pages[page].title} />
+        <RouteHead {...this.getSettings('vtex.store')?.routeHead} />
+        <RouteAnnouncer
+          {...this.getSettings('vtex.store')?.navigationAccessibility}
+        />
         <RenderPage page={page} query={query} />
       </div>
     )
@@ -1162,10 +1867,14 @@ export class RenderProvider extends Component<
               messages={mergedMessages}
               textComponent={Fragment}
             >
-              <PrefetchContextProvider history={this.props.history}>
+              <PrefetchContextProvider
+                history={this.props.history}
+                appsEtag={this.props.runtime.appsEtag}
+              >
                 <Fragment>
                   <ExtensionManager runtime={this.props.runtime} />
                   {!production && !isSiteEditorIframe && <BuildStatus />}
+                  {!production && !isSiteEditorIframe && <BrokenLinks />}
                   {component}
                   {isSiteEditorIframe ? (
                     <ExtensionPoint id="store/__overlay" />
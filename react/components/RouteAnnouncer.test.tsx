@@ -0,0 +1,73 @@
+import React from 'react'
+import { act, cleanup, render } from '@vtex/test-tools/react'
+
+import { RenderContextProvider } from './RenderContext'
+import RouteAnnouncer, { useRouteFocusTarget } from './RouteAnnouncer'
+import { NavigationGuard } from '../utils/navigationGuards'
+
+jest.useFakeTimers()
+
+afterEach(() => {
+  cleanup()
+  window.history.replaceState(null, '', '/')
+  document.title = ''
+})
+
+const renderAnnouncer = (children?: React.ReactNode) => {
+  const guards: NavigationGuard[] = []
+  const addNavigationGuard = (guard: NavigationGuard) => {
+    guards.push(guard)
+    return () => {}
+  }
+
+  const result = render(
+    <RenderContextProvider runtime={{ addNavigationGuard } as any}>
+      <RouteAnnouncer />
+      <main>{children}</main>
+    </RenderContextProvider>
+  )
+
+  const navigate = (path: string, title: string) => {
+    window.history.pushState(null, '', path)
+    document.title = title
+    act(() => {
+      guards.forEach((guard) => guard.afterNavigate?.({} as any))
+      jest.runAllTimers()
+    })
+  }
+
+  return { ...result, navigate }
+}
+
+describe('RouteAnnouncer', () => {
+  it('should announce the new page and focus its main landmark', () => {
+    const { container, navigate } = renderAnnouncer()
+
+    navigate('/shirt/p', 'Shirt')
+
+    const announcer = container.querySelector('[aria-live]')
+    expect(announcer?.textContent).toBe('Shirt')
+    expect(document.activeElement).toBe(container.querySelector('main'))
+  })
+
+  it('should leave query-only changes alone', () => {
+    const { container, navigate } = renderAnnouncer()
+
+    navigate('/?page=2', 'Home')
+
+    expect(container.querySelector('[aria-live]')?.textContent).toBe('')
+  })
+
+  it('should focus the target designated by a block', () => {
+    const Heading = () => {
+      const ref = useRouteFocusTarget<HTMLHeadingElement>()
+      return <h1 ref={ref}>Shirt details</h1>
+    }
+
+    const { getByText, navigate } = renderAnnouncer(<Heading />)
+
+    navigate('/shirt/p', 'Shirt')
+
+    expect(document.activeElement).toBe(getByText('Shirt details'))
+  })
+})
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react'
+
+import { useRuntime } from './RenderContext'
+
+const DEFAULT_FOCUS_SELECTOR = 'main, [role="main"]'
+// Gives the new page time to render its title and register its focus targets
+const ANNOUNCE_DELAY_MS = 100
+
+let focusTargets: HTMLElement[] = []
+
+/** Returns a ref to the element that should get the focus after navigations
+ * to the calling block's page, instead of the main landmark. The last target
+ * to be mounted wins. */
+export const useRouteFocusTarget = <T extends HTMLElement>() => {
+  const ref = useRef<T>(null)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) {
+      return
+    }
+
+    focusTargets = [...focusTargets, element]
+    return () => {
+      focusTargets = focusTargets.filter((target) => target !== element)
+    }
+  }, [])
+
+  return ref
+}
+
+const getPageTitle = () =>
+  document.title ||
+  document.querySelector('h1')?.textContent ||
+  window.location.pathname
+
+const moveFocus = (selector: string) => {
+  const target =
+    focusTargets[focusTargets.length - 1] ??
+    document.querySelector<HTMLElement>(selector)
+  if (!target) {
+    return
+  }
+
+  // Elements that aren't focusable by default can only get the focus this way
+  if (!target.hasAttribute('tabindex')) {
+    target.setAttribute('tabindex', '-1')
+  }
+  target.focus({ preventScroll: true })
+}
+
+const visuallyHidden: React.CSSProperties = {
+  border: 0,
+  clip: 'rect(0 0 0 0)',
+  height: '1px',
+  margin: '-1px',
+  overflow: 'hidden',
+  padding: 0,
+  position: 'absolute',
+  whiteSpace: 'nowrap',
+  width: '1px',
+}
+
+/** Tells screen reader users that the page changed after client side
+ * navigations, and moves the focus to the new page's content, since the link
+ * that was clicked may be gone. Query-only changes are left alone. */
+const RouteAnnouncer: React.FunctionComponent<NavigationAccessibilityOptions> = ({
+  announce = true,
+  focus = true,
+  focusSelector = DEFAULT_FOCUS_SELECTOR,
+}) => {
+  const { addNavigationGuard } = useRuntime()
+  const [message, setMessage] = useState('')
+  const pathname = useRef<string>()
+
+  useEffect(() => {
+    let timeout: number | undefined
+    if (pathname.current === undefined) {
+      pathname.current = window.location.pathname
+    }
+
+    const removeGuard = addNavigationGuard({
+      afterNavigate: () => {
+        if (window.location.pathname === pathname.current) {
+          return
+        }
+
+        pathname.current = window.location.pathname
+        window.clearTimeout(timeout)
+        timeout = window.setTimeout(() => {
+          if (announce) {
+            setMessage(getPageTitle())
+          }
+          if (focus) {
+            moveFocus(focusSelector)
+          }
+        }, ANNOUNCE_DELAY_MS)
+      },
+    })
+
+    return () => {
+      window.clearTimeout(timeout)
+      removeGuard()
+    }
+  }, [addNavigationGuard, announce, focus, focusSelector])
+
+  return (
+    <div
+      className="render-route-announcer"
+      aria-live="assertive"
+      aria-atomic="true"
+      style={visuallyHidden}
+    >
+      {message}
+    </div>
+  )
+}
+
+export default RouteAnnouncer
@@ -0,0 +1,134 @@
+import React from 'react'
+import { EventEmitter } from 'eventemitter3'
+import { Helmet } from 'react-helmet'
+import { cleanup, render } from '@vtex/test-tools/react'
+
+import { RenderContextProvider } from './RenderContext'
+import RouteHead, { serializeJsonLd, useRouteHead } from './RouteHead'
+
+afterEach(cleanup)
+
+// On jsdom, `peek` returns the state of the head rather than rendered tags
+const peekHead = (): any => Helmet.peek()
+
+const pages = {
+  'store.product': {
+    path: '/:slug/p',
+    title: 'Product',
+    localizedPaths: { 'pt-BR': { path: '/:slug/produto' } },
+  },
+} as any
+
+const route = {
+  id: 'store.product',
+  params: { slug: 'shirt' },
+  title: 'Shirt',
+  canonicalPath: '/shirt/p',
+  metaTags: { description: 'A shirt', keywords: ['shirt', 'cotton'] },
+} as any
+
+const renderHead = (
+  children?: React.ReactNode,
+  runtime: Record<string, any> = {}
+) =>
+  render(
+    <RenderContextProvider
+      runtime={
+        {
+          emitter: new EventEmitter(),
+          page: 'store.product',
+          pages,
+          route,
+          culture: { availableLocales: ['en-US', 'pt-BR'] },
+          ...runtime,
+        } as any
+      }
+    >
+      <RouteHead titleTemplate="%s - Store" />
+      {children}
+    </RenderContextProvider>
+  )
+
+describe('RouteHead', () => {
+  it('should render the head of the route', () => {
+    renderHead()
+    const head = peekHead()
+
+    expect(head.title).toBe('Shirt - Store')
+    expect(head.metaTags).toEqual([
+      { name: 'description', content: 'A shirt' },
+      { name: 'keywords', content: 'shirt, cotton' },
+    ])
+    expect(head.linkTags).toEqual([
+      { rel: 'canonical', href: 'http://localhost/shirt/p' },
+      { rel: 'alternate', hrefLang: 'en-US', href: 'http://localhost/shirt/p' },
+      {
+        rel: 'alternate',
+        hrefLang: 'pt-BR',
+        href: 'http://localhost/shirt/produto',
+      },
+    ])
+  })
+
+  it("should use the binding's address on absolute URLs", () => {
+    renderHead(null, {
+      binding: { id: 'us', canonicalBaseAddress: 'store.com/us' },
+      rootPath: '/us',
+    })
+
+    expect(peekHead().linkTags).toEqual([
+      { rel: 'canonical', href: 'https://store.com/us/shirt/p' },
+    ])
+  })
+
+  it('should only link alternates when there is no root path', () => {
+    renderHead(null, { rootPath: '/us' })
+
+    expect(peekHead().linkTags).toEqual([
+      { rel: 'canonical', href: 'http://localhost/us/shirt/p' },
+    ])
+  })
+
+  it('should let blocks override the head', () => {
+    const Override = () => {
+      useRouteHead({
+        title: 'Shirt on sale',
+        robots: 'noindex',
+        jsonLd: [{ '@type': 'Product', name: 'Shirt' }],
+      })
+      return null
+    }
+
+    const { unmount } = renderHead(<Override />)
+    let head = peekHead()
+
+    expect(head.title).toBe('Shirt on sale - Store')
+    expect(head.metaTags).toContainEqual({
+      name: 'robots',
+      content: 'noindex',
+    })
+    expect(head.scriptTags).toEqual([
+      {
+        type: 'application/ld+json',
+        innerHTML: '{"@type":"Product","name":"Shirt"}',
+      },
+    ])
+
+    unmount()
+    renderHead()
+    head = peekHead()
+
+    expect(head.title).toBe('Shirt - Store')
+  })
+
+  it('should escape the JSON-LD so it can not end its script tag', () => {
+    const name = '</script><img src=x onerror=alert(1)>&\u2028'
+    const serialized = serializeJsonLd({ name })
+
+    expect(serialized).toBe(
+      '{"name":"\\u003c/script\\u003e\\u003cimg src=x onerror=alert(1)\\u003e\\u0026\\u2028"}'
+    )
+    expect(serialized).not.toMatch(/[<>&\u2028]/)
+    expect(JSON.parse(serialized)).toEqual({ name })
+  })
+})
@@ -0,0 +1,156 @@
+import { canUseDOM } from 'exenv'
+import React, { useEffect, useRef, useState } from 'react'
+import { Helmet } from 'react-helmet'
+
+import { useAlternatePaths } from '../hooks/alternatePaths'
+import { useRuntime } from './RenderContext'
+
+export interface RouteHeadData {
+  title?: string
+  description?: string
+  keywords?: string[]
+  robots?: string
+  /** Path of the canonical URL, without the root path */
+  canonical?: string
+  jsonLd?: Array<Record<string, any>>
+}
+
+interface RouteHeadOverride {
+  id: number
+  head: RouteHeadData
+}
+
+let overridesCount = 0
+
+const JSON_LD_ESCAPES: Record<string, string> = {
+  '<': '\\u003c',
+  '>': '\\u003e',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029',
+}
+
+/** Helmet writes the scripts' content as is, so text such as `</script>`
+ * would end the tag early on the server rendered HTML */
+export const serializeJsonLd = (data: Record<string, any>) =>
+  JSON.stringify(data).replace(
+    /[<>&\u2028\u2029]/g,
+    (char) => JSON_LD_ESCAPES[char]
+  )
+
+/** Reads the head of the current route from the page response */
+export const getRouteHead = (
+  route: RenderRuntime['route'],
+  page?: Page
+): RouteHeadData => ({
+  title: route.title || page?.title,
+  description: route.metaTags?.description,
+  keywords: route.metaTags?.keywords,
+  robots: route.metaTags?.robots,
+  canonical: route.canonicalPath,
+})
+
+/** Crawlers need absolute URLs, so the server rendered HTML uses the
+ * binding's address as well */
+export const getOrigin = (binding?: BindingInfo) => {
+  const host = binding?.canonicalBaseAddress.split('/')[0]
+  if (host) {
+    return `https://${host}`
+  }
+  if (canUseDOM) {
+    return window.location.origin
+  }
+  return window.__hostname__ ? `https://${window.__hostname__}` : ''
+}
+
+/** Overrides the head of the current route while the calling block is
+ * mounted. Blocks mounted later win over earlier ones. It has no effect on
+ * server side rendering. */
+export const useRouteHead = (head: RouteHeadData) => {
+  const { emitter } = useRuntime()
+  const id = useRef(0)
+  const serializedHead = JSON.stringify(head)
+
+  useEffect(() => {
+    if (!id.current) {
+      id.current = ++overridesCount
+    }
+    emitter.emit('routeHead.set', {
+      id: id.current,
+      head: JSON.parse(serializedHead),
+    })
+  }, [emitter, serializedHead])
+
+  useEffect(() => () => emitter.emit('routeHead.remove', id.current), [emitter])
+}
+
+const RouteHead: React.FunctionComponent<RouteHeadOptions> = ({
+  titleTemplate,
+  defaultTitle,
+}) => {
+  const { binding, emitter, page, pages, route, rootPath = '' } = useRuntime()
+  const alternates = useAlternatePaths()
+  const [overrides, setOverrides] = useState<RouteHeadOverride[]>([])
+
+  useEffect(() => {
+    const setOverride = (override: RouteHeadOverride) =>
+      setOverrides((current) =>
+        current.some(({ id }) => id === override.id)
+          ? current.map((item) => (item.id === override.id ? override : item))
+          : [...current, override]
+      )
+    const removeOverride = (id: number) =>
+      setOverrides((current) => current.filter((item) => item.id !== id))
+
+    emitter.addListener('routeHead.set', setOverride)
+    emitter.addListener('routeHead.remove', removeOverride)
+
+    return () => {
+      emitter.removeListener('routeHead.set', setOverride)
+      emitter.removeListener('routeHead.remove', removeOverride)
+    }
+  }, [emitter])
+
+  const head = overrides.reduce<RouteHeadData>(
+    (acc, override) => ({ ...acc, ...override.head }),
+    getRouteHead(route, pages[page])
+  )
+  const origin = getOrigin(binding)
+
+  return (
+    <Helmet
+      title={head.title}
+      titleTemplate={titleTemplate}
+      defaultTitle={defaultTitle}
+    >
+      {head.description && (
+        <meta name="description" content={head.description} />
+      )}
+      {head.keywords && head.keywords.length > 0 && (
+        <meta name="keywords" content={head.keywords.join(', ')} />
+      )}
+      {head.robots && <meta name="robots" content={head.robots} />}
+      {head.canonical && (
+        <link rel="canonical" href={`${origin}${rootPath}${head.canonical}`} />
+      )}
+      {/* Other locales' root paths aren't known when this one has its own */}
+      {!rootPath &&
+        alternates.length > 1 &&
+        alternates.map(({ locale, path }) => (
+          <link
+            key={locale}
+            rel="alternate"
+            hrefLang={locale}
+            href={`${origin}${path}`}
+          />
+        ))}
+      {head.jsonLd?.map((data, index) => (
+        <script key={index} type="application/ld+json">
+          {serializeJsonLd(data)}
+        </script>
+      ))}
+    </Helmet>
+  )
+}
+
+export default RouteHead
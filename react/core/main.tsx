@@ -8,7 +8,6 @@ import 'classnames'
 import * as EventEmitter from 'eventemitter3'
 import { canUseDOM } from 'exenv'
 import 'graphql'
-import { createBrowserHistory as createHistory } from 'history'
 import queryString from 'query-string'
 import React, { ReactElement } from 'react'
 import { getDataFromTree } from 'react-apollo'
@@ -36,6 +35,8 @@ import LayoutContainer from '../components/LayoutContainer'
 import LegacyExtensionContainer from '../components/ExtensionPoint/LegacyExtensionContainer'
 import Link from '../components/Link'
 import { RenderContext, withRuntimeContext } from '../components/RenderContext'
+import { useRouteHead } from '../components/RouteHead'
+import { useRouteFocusTarget } from '../components/RouteAnnouncer'
 /** Important: Builder-Hub will only export types of functions imported from individual files.
  * So `useRuntime` should be imported from `../components/useRuntime` rather than
  * being imported along with the other functions from `RenderContext` */
@@ -50,8 +51,24 @@ import {
 } from '../utils/client'
 import { buildCacheLocator } from '../utils/client'
 import { getMarkups, getOrCreateContainer } from '../utils/dom'
+import { getUserConfirmation } from '../utils/navigationGuards'
 import { registerEmitter } from '../utils/events'
 import { getBaseURI } from '../utils/host'
+import { buildPath } from '../utils/pages'
+import {
+  createBrowserRouterAdapter,
+  createHashRouterAdapter,
+  createMemoryRouterAdapter,
+  RouterAdapter,
+} from '../utils/routerAdapter'
+import { getPrefetchPolicy } from '../utils/prefetchPolicy'
+import { queryParam, useQueryParam, useQueryState } from '../hooks/queryState'
+import { useNavigationStatus } from '../hooks/navigationStatus'
+import { useAlternatePaths } from '../hooks/alternatePaths'
+import { useRouteMatch } from '../hooks/routeMatch'
+import { useNavigationHistory } from '../hooks/navigationHistory'
+import { useAuthGuard } from '../hooks/authGuard'
+import { usePrefetchRoute } from '../hooks/prefetch'
 import registerComponent from '../utils/registerComponent'
 import { withSession } from '../utils/session'
 import { TreePathContext, useTreePath } from '../utils/treePath'
@@ -131,12 +148,17 @@ const createRootElement = (
   name: string,
   runtime: RenderRuntime,
   sessionPromise: Promise<void>,
-  apollo: ApolloClientFunctions
+  apollo: ApolloClientFunctions,
+  router?: RouterAdapter
 ) => {
   const { customRouting, pages, extensions } = runtime
   const isPage =
     !!pages[name] && !!pages[name].path && !!extensions[name]?.component
-  const history = canUseDOM && isPage && !customRouting ? createHistory() : null
+  const history =
+    router ??
+    (canUseDOM && isPage && !customRouting
+      ? createBrowserRouterAdapter()
+      : null)
 
   return (
     <RenderProvider
@@ -155,7 +177,8 @@ const prepareRootElement = (
   name: string,
   runtime: RenderRuntime,
   baseURI: string,
-  cacheControl: PageCacheControl | undefined
+  cacheControl: PageCacheControl | undefined,
+  router?: RouterAdapter
 ) => {
   const sessionPromise = canUseDOM
     ? window.__RENDER_8_SESSION__.sessionPromise
@@ -169,15 +192,19 @@ const prepareRootElement = (
   ).then((apollo) =>
     apollo
       .hydrate(runtime.queryData)
-      .then(() => createRootElement(name, runtime, sessionPromise, apollo))
+      .then(() =>
+        createRootElement(name, runtime, sessionPromise, apollo, router)
+      )
   )
 }
 
 // Either renders the root component to a DOM element or returns a {name, markup} promise.
+// Roots with `customRouting` only get navigation when a `router` is given.
 const render = async (
   name: string,
   runtime: RenderRuntime,
-  element?: HTMLElement
+  element?: HTMLElement,
+  router?: RouterAdapter
 ): Rendered => {
   const { concurrentMode, disableSSR, disableSSQ, page } = runtime
 
@@ -191,7 +218,7 @@ const render = async (
       : getOrCreateContainer()
     const shouldHydrate = !(disableSSR || created)
     return promised<void>((resolve) => {
-      prepareRootElement(name, runtime, baseURI, cacheControl)
+      prepareRootElement(name, runtime, baseURI, cacheControl, router)
         .then((root) =>
           clientRender(root, container, shouldHydrate, concurrentMode)
         )
@@ -393,11 +420,28 @@ export {
   ChildBlock,
   useChildBlock,
   useRuntime,
+  useQueryState,
+  useQueryParam,
+  queryParam,
+  useNavigationStatus,
+  useAlternatePaths,
+  useRouteMatch,
+  useNavigationHistory,
+  useAuthGuard,
+  usePrefetchRoute,
+  useRouteHead,
+  useRouteFocusTarget,
   useTreePath,
   withSession,
   Loading,
   LoadingContextProvider,
   buildCacheLocator,
+  buildPath,
+  createBrowserRouterAdapter,
+  createHashRouterAdapter,
+  createMemoryRouterAdapter,
+  getPrefetchPolicy,
+  getUserConfirmation,
   renderExtension,
   // These unstable APIs should be deprecated shortly
   ChildBlock as Unstable__ChildBlock,
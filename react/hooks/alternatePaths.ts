@@ -0,0 +1,21 @@
+import { useMemo } from 'react'
+
+import { useRuntime } from '../components/RenderContext'
+import { getAlternatePaths } from '../utils/pages'
+
+/** Returns the path of the current route on each of the store's locales,
+ * e.g. for locale switchers. Locales may be served from different bindings,
+ * whose root paths aren't known, so paths aren't prefixed with any. */
+export const useAlternatePaths = () => {
+  const {
+    page,
+    pages,
+    route: { params },
+    culture: { availableLocales },
+  } = useRuntime()
+
+  return useMemo(
+    () => getAlternatePaths(page, params, pages, availableLocales),
+    [page, params, pages, availableLocales]
+  )
+}
@@ -0,0 +1,54 @@
+import React from 'react'
+import { cleanup, render, wait } from '@vtex/test-tools/react'
+
+import { RenderContextProvider } from '../components/RenderContext'
+import { useAuthGuard } from './authGuard'
+
+afterEach(cleanup)
+
+const renderGuard = (authenticated: boolean, redirect?: boolean) => {
+  const redirectToLogin = jest.fn()
+  const Guarded = () => {
+    const { status } = useAuthGuard({ redirect })
+    return <span>{status}</span>
+  }
+
+  const result = render(
+    <RenderContextProvider
+      runtime={
+        {
+          isAuthenticated: () => Promise.resolve(authenticated),
+          redirectToLogin,
+        } as any
+      }
+    >
+      <Guarded />
+    </RenderContextProvider>
+  )
+
+  return { ...result, redirectToLogin }
+}
+
+describe('useAuthGuard', () => {
+  it('should let logged in users through', async () => {
+    const { getByText, redirectToLogin } = renderGuard(true)
+
+    expect(getByText('checking')).toBeTruthy()
+    await wait(() => getByText('authenticated'))
+    expect(redirectToLogin).not.toHaveBeenCalled()
+  })
+
+  it('should send logged out users to the login page', async () => {
+    const { getByText, redirectToLogin } = renderGuard(false)
+
+    await wait(() => getByText('unauthenticated'))
+    expect(redirectToLogin).toHaveBeenCalledWith(undefined)
+  })
+
+  it('should not redirect when asked not to', async () => {
+    const { getByText, redirectToLogin } = renderGuard(false, false)
+
+    await wait(() => getByText('unauthenticated'))
+    expect(redirectToLogin).not.toHaveBeenCalled()
+  })
+})
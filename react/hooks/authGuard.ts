@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react'
+
+import { useRuntime } from '../components/RenderContext'
+
+export type AuthStatus = 'checking' | 'authenticated' | 'unauthenticated'
+
+interface AuthGuardOptions {
+  /** Sends logged out users to the login page. Defaults to `true` */
+  redirect?: boolean
+  /** Where the login page sends the user back to. Defaults to the current URL */
+  returnUrl?: string
+}
+
+/** Protects a section of a page the way `auth` protects whole pages. Render
+ * the section only once the status is `authenticated`. */
+export const useAuthGuard = ({
+  redirect = true,
+  returnUrl,
+}: AuthGuardOptions = {}) => {
+  const { isAuthenticated, redirectToLogin } = useRuntime()
+  const [status, setStatus] = useState<AuthStatus>('checking')
+
+  useEffect(() => {
+    let isCurrent = true
+
+    isAuthenticated().then((authenticated) => {
+      if (!isCurrent) {
+        return
+      }
+
+      setStatus(authenticated ? 'authenticated' : 'unauthenticated')
+      if (!authenticated && redirect) {
+        redirectToLogin(returnUrl)
+      }
+    })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [isAuthenticated, redirect, redirectToLogin, returnUrl])
+
+  return { status }
+}
@@ -0,0 +1,73 @@
+import React from 'react'
+import { act, cleanup, render } from '@vtex/test-tools/react'
+
+import { RenderContextProvider } from '../components/RenderContext'
+import {
+  NavigationHistory,
+  NavigationHistoryEntry,
+} from '../utils/navigationHistory'
+import { useNavigationHistory } from './navigationHistory'
+
+afterEach(() => {
+  cleanup()
+  window.sessionStorage.clear()
+})
+
+const createEntry = (key: string, routeId: string) =>
+  ({
+    key,
+    routeId,
+    params: {},
+    path: `/${key}`,
+    query: '',
+    timestamp: 0,
+  } as NavigationHistoryEntry)
+
+const renderHistory = (entries: NavigationHistoryEntry[] = []) => {
+  const history = { go: jest.fn() }
+  const navigationHistory = new NavigationHistory()
+  entries.forEach((entry) => navigationHistory.record('PUSH', entry))
+  let result = {} as ReturnType<typeof useNavigationHistory>
+  const Consumer = () => {
+    result = useNavigationHistory()
+    return null
+  }
+
+  render(
+    <RenderContextProvider runtime={{ history, navigationHistory } as any}>
+      <Consumer />
+    </RenderContextProvider>
+  )
+
+  return { history, navigationHistory, getResult: () => result }
+}
+
+describe('useNavigationHistory', () => {
+  it('should follow the entries routed by the runtime', () => {
+    const { navigationHistory, getResult } = renderHistory()
+    expect(getResult().canGoBack).toBe(false)
+
+    act(() => {
+      navigationHistory.record('PUSH', createEntry('a', 'store.search'))
+      navigationHistory.record('PUSH', createEntry('b', 'store.product'))
+    })
+
+    expect(getResult().index).toBe(1)
+    expect(getResult().canGoBack).toBe(true)
+    expect(getResult().entries.map(({ key }) => key)).toEqual(['a', 'b'])
+  })
+
+  it('should go to entries relative to the current one', () => {
+    const { history, getResult } = renderHistory([
+      createEntry('a', 'store.search'),
+      createEntry('b', 'store.product'),
+      createEntry('c', 'store.product'),
+    ])
+
+    expect(getResult().goBackTo('store.search')).toBe(true)
+    expect(history.go).toHaveBeenLastCalledWith(-2)
+    expect(getResult().goBackTo('store.home')).toBe(false)
+    expect(getResult().goTo(5)).toBe(false)
+    expect(history.go).toHaveBeenCalledTimes(1)
+  })
+})
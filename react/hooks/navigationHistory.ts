@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react'
+
+import { useRuntime } from '../components/RenderContext'
+
+/** Entries routed by the runtime in this tab, so blocks can tell whether
+ * going back keeps the user in the store. */
+export const useNavigationHistory = () => {
+  const { history, navigationHistory } = useRuntime()
+  const [{ entries, index }, setState] = useState(() =>
+    navigationHistory.getState()
+  )
+
+  useEffect(() => {
+    setState(navigationHistory.getState())
+    return navigationHistory.subscribe(() =>
+      setState(navigationHistory.getState())
+    )
+  }, [navigationHistory])
+
+  const goTo = useCallback(
+    (position: number) => {
+      if (!history || position < 0 || position >= entries.length) {
+        return false
+      }
+      if (position !== index) {
+        history.go(position - index)
+      }
+      return true
+    },
+    [history, entries.length, index]
+  )
+
+  /** Goes back to the last entry of the given route, if there's any */
+  const goBackTo = useCallback(
+    (routeId: string) => {
+      for (let position = index - 1; position >= 0; position--) {
+        if (entries[position].routeId === routeId) {
+          return goTo(position)
+        }
+      }
+      return false
+    },
+    [entries, index, goTo]
+  )
+
+  return { canGoBack: index > 0, entries, index, goTo, goBackTo }
+}
@@ -0,0 +1,47 @@
+import React from 'react'
+import { cleanup, render } from '@vtex/test-tools/react'
+
+import { RenderContextProvider } from '../components/RenderContext'
+import { useNavigationStatus } from './navigationStatus'
+
+afterEach(cleanup)
+
+const renderStatus = (runtime: Partial<RenderContext>) => {
+  const Status = () => {
+    const { status } = useNavigationStatus()
+    return <span>{status}</span>
+  }
+
+  return render(
+    <RenderContextProvider runtime={runtime as RenderContext}>
+      <Status />
+    </RenderContextProvider>
+  )
+}
+
+describe('useNavigationStatus', () => {
+  it('should be idle when there is no navigation', () => {
+    const { getByText } = renderStatus({
+      preview: false,
+      navigationError: null,
+    })
+    expect(getByText('idle')).toBeTruthy()
+  })
+
+  it('should be loading while the next page is fetched', () => {
+    const { getByText } = renderStatus({ preview: true, navigationError: null })
+    expect(getByText('loading')).toBeTruthy()
+  })
+
+  it('should be error while a failed navigation is retried', () => {
+    const { getByText } = renderStatus({
+      preview: true,
+      navigationError: {
+        error: new Error('Network error'),
+        path: '/shirt/p',
+        attempts: 1,
+      },
+    })
+    expect(getByText('error')).toBeTruthy()
+  })
+})
@@ -0,0 +1,17 @@
+import { useRuntime } from '../components/RenderContext'
+
+export type NavigationStatus = 'idle' | 'loading' | 'error'
+
+/** Tells whether a navigation is in progress or has failed. Failed navigations
+ * are retried, and the status stays `error` until one of them succeeds. */
+export const useNavigationStatus = () => {
+  const { navigationError, preview } = useRuntime()
+
+  const status: NavigationStatus = navigationError
+    ? 'error'
+    : preview
+    ? 'loading'
+    : 'idle'
+
+  return { status, error: navigationError }
+}
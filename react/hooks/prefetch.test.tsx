@@ -0,0 +1,136 @@
+import React from 'react'
+import { cleanup, render } from '@vtex/test-tools/react'
+
+import { RenderContextProvider } from '../components/RenderContext'
+import {
+  getPrefetchState,
+  getPrefetechedData,
+} from '../components/Prefetch/PrefetchContext'
+import { fetchRouteData, getPrefetchForPath } from '../utils/routes'
+import { prefetchNavigation, usePrefetchRoute } from './prefetch'
+
+jest.mock('../utils/routes', () => ({
+  ...jest.requireActual('../utils/routes'),
+  isPrefetchActive: (storeSettings: Record<string, any>) =>
+    storeSettings.enablePrefetch,
+  getPrefetchForPath: jest.fn(),
+  fetchRouteData: jest.fn(),
+}))
+
+jest.mock('../utils/components', () => ({
+  ...jest.requireActual('../utils/components'),
+  fetchComponents: () => Promise.resolve(),
+}))
+
+afterEach(cleanup)
+
+const pages = {
+  'store.product': {
+    path: '/:slug/p',
+    declarer: 'vtex.store@2.x',
+  },
+} as any
+
+const prefetch = (
+  to: string,
+  { enablePrefetch = true, priority }: Record<string, any> = {}
+) =>
+  prefetchNavigation({
+    client: {} as any,
+    options: { to },
+    pages,
+    prefetchState: getPrefetchState(),
+    hints: {} as any,
+    renderMajor: 8,
+    storeSettings: { enablePrefetch },
+    navigationRouteModifiers: new Set(),
+    priority,
+  })
+
+describe('prefetchNavigation', () => {
+  const { queue } = getPrefetchState()
+
+  beforeAll(() => {
+    // Pages are fetched by the mocked getPrefetchForPath
+    window.fetch = jest.fn()
+  })
+
+  beforeEach(() => {
+    queue.start()
+    ;(getPrefetchForPath as jest.Mock).mockReset()
+    ;(getPrefetchForPath as jest.Mock).mockResolvedValue({
+      page: 'store.product',
+      route: { routeId: 'store.product' },
+      contentResponse: null,
+      queryData: [],
+    })
+    ;(fetchRouteData as jest.Mock).mockReset()
+    ;(fetchRouteData as jest.Mock).mockResolvedValue({
+      components: {},
+      extensions: {},
+    })
+  })
+
+  it('should resolve once the data of the path is prefetched', async () => {
+    expect(await prefetch('/shirt/p')).toBe(true)
+    expect(getPrefetechedData('/shirt/p').prefetchedPathData).toMatchObject({
+      routeId: 'store.product',
+    })
+    expect(await prefetch('/shirt/p')).toBe(true)
+    expect(getPrefetchForPath).toHaveBeenCalledTimes(1)
+  })
+
+  it('should share the prefetch of a path that is pending', async () => {
+    const first = prefetch('/pants/p')
+    const second = prefetch('/pants/p', { priority: 2 })
+
+    expect(second).toBe(first)
+    expect(await second).toBe(true)
+    expect(getPrefetchForPath).toHaveBeenCalledTimes(1)
+  })
+
+  it('should let prefetches cleared by a navigation try again', async () => {
+    queue.pause()
+    const cleared = prefetch('/socks/p')
+    queue.clear()
+
+    expect(await cleared).toBe(false)
+    expect(getPrefetchForPath).not.toHaveBeenCalled()
+
+    queue.start()
+    expect(await prefetch('/socks/p')).toBe(true)
+  })
+
+  it('should resolve to false when prefetching is inactive', async () => {
+    expect(await prefetch('/hat/p', { enablePrefetch: false })).toBe(false)
+    expect(getPrefetchForPath).not.toHaveBeenCalled()
+  })
+})
+
+describe('usePrefetchRoute', () => {
+  const Search = ({ target }: { target: any }) => {
+    usePrefetchRoute(target, { priority: 1 })
+    return null
+  }
+
+  it('should prefetch the target whenever it changes', () => {
+    const prefetchPath = jest.fn()
+    const renderSearch = (target: any) => (
+      <RenderContextProvider runtime={{ prefetchPath } as any}>
+        <Search target={target} />
+      </RenderContextProvider>
+    )
+
+    const { rerender } = render(renderSearch(null))
+    expect(prefetchPath).not.toHaveBeenCalled()
+
+    rerender(renderSearch({ page: 'store.product', params: { slug: 'a' } }))
+    rerender(renderSearch({ page: 'store.product', params: { slug: 'a' } }))
+    rerender(renderSearch('/b/p'))
+
+    expect(prefetchPath.mock.calls).toEqual([
+      [{ page: 'store.product', params: { slug: 'a' } }, { priority: 1 }],
+      ['/b/p', { priority: 1 }],
+    ])
+  })
+})
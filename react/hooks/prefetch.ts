@@ -2,11 +2,14 @@ import {
   PrefetchState,
   usePrefetch,
   getCacheForPage,
+  getPrefetechedData,
 } from '../components/Prefetch/PrefetchContext'
 import {
   queryStringToMap,
   NavigateOptions,
+  NavigationRouteModifier,
   getNavigationRouteToNavigate,
+  rendersClientSide,
 } from '../utils/pages'
 import {
   getPrefetchForPath,
@@ -14,10 +17,13 @@ import {
   isPrefetchActive,
 } from '../utils/routes'
 import { fetchComponents } from '../utils/components'
-import { useRuntime } from '../core/main'
+import { useRuntime } from '../components/RenderContext'
 import { useApolloClient } from 'react-apollo'
 import { useRef, useEffect, useCallback, MutableRefObject } from 'react'
 import { useOnView } from './viewDetection'
+import { getPrefetchPolicy } from '../utils/prefetchPolicy'
+import { prerender } from '../utils/speculation'
+import { bindToSession, isBoundToCurrentSession } from '../utils/sessionBinding'
 
 interface PrefetchRequestsArgs {
   client: ApolloClientType
@@ -79,6 +85,7 @@ const maybeUpdatePathCache = async ({
     matchingPage: navigationData.route,
     contentResponse: navigationData.contentResponse,
     queryData: navigationData.queryData,
+    session: bindToSession(navigationData.queryData, navigationData.cacheHints),
   }
 
   const cache = getCacheForPage(navigationPage)
@@ -111,7 +118,8 @@ const prefetchRequests = async ({
   })
 
   pathsState[navigationRoute.path] = { fetching: false, page: navigationPage }
-  if (navigationPage == null) {
+  const { caches } = getPrefetchPolicy()
+  if (navigationPage == null || !caches.includes('routes')) {
     return
   }
 
@@ -153,7 +161,7 @@ const prefetchRequests = async ({
     routeDataCache = routesCache.get(navigationPage)
   }
 
-  if (!routeDataCache) {
+  if (!routeDataCache || !caches.includes('assets')) {
     return
   }
 
@@ -186,6 +194,10 @@ const getCacheValidData = (path: string, prefecthState: PrefetchState) => {
   }
 
   const cache = getCacheForPage(page)
+  if (cache.has(path) && !isBoundToCurrentSession(cache.get(path)?.session)) {
+    // Data of another session is fetched again
+    cache.prune((_, key) => key === path)
+  }
   const validData = cache.has(path)
   const validRoutesData = routesCache.has(page)
   return {
@@ -197,6 +209,87 @@ const getCacheValidData = (path: string, prefecthState: PrefetchState) => {
 const getPriorityForPage = (page: string | undefined) =>
   page === 'store.product' ? 1 : 0
 
+// Hovering a link for this long makes it very likely to be clicked
+const HOVER_INTENT_MS = 200
+
+interface PrefetchNavigationArgs {
+  client: ApolloClientType
+  options: NavigateOptions
+  page?: string
+  pages: RenderRuntime['pages']
+  prefetchState: PrefetchState
+  hints: RenderRuntime['hints']
+  renderMajor: RenderRuntime['renderMajor']
+  storeSettings: Record<string, any>
+  navigationRouteModifiers: Set<NavigationRouteModifier>
+  priority?: number
+}
+
+// Prefetches of a path that is already being prefetched share its promise
+const pendingPrefetches: Record<string, Promise<boolean> | undefined> = {}
+
+/** Adds the prefetch of the page navigated to with `options` to the queue.
+ * Resolves to whether the data of its path is ready, which it isn't when
+ * prefetching is inactive or a navigation clears the queue first. */
+export const prefetchNavigation = ({
+  options,
+  navigationRouteModifiers,
+  priority,
+  ...args
+}: PrefetchNavigationArgs) => {
+  const { page, pages, prefetchState, storeSettings } = args
+  if (!isPrefetchActive(storeSettings)) {
+    return Promise.resolve(false)
+  }
+
+  options.modifiers = navigationRouteModifiers
+  const navigationRoute = getNavigationRouteToNavigate(pages, options)
+  if (navigationRoute == null) {
+    return Promise.resolve(false)
+  }
+  navigationRoute.original = options.to
+
+  const { path } = navigationRoute
+  const pendingPrefetch = pendingPrefetches[path]
+  if (pendingPrefetch) {
+    return pendingPrefetch
+  }
+
+  const validCache = getCacheValidData(path, prefetchState)
+  if (validCache.pathValid && validCache.routeValid) {
+    // cache all valid, no need to fetch anything
+    return Promise.resolve(true)
+  }
+
+  const { pathsState, queue } = prefetchState
+  if (!validCache.pathValid) {
+    pathsState[path] = { fetching: true }
+  }
+
+  const prefetch = queue
+    .add(
+      async () =>
+        prefetchRequests({
+          ...args,
+          navigationRoute,
+          validCache,
+        }),
+      { priority: priority ?? getPriorityForPage(page) }
+    )
+    .then(() => {
+      pendingPrefetches[path] = undefined
+      if (pathsState[path]?.fetching) {
+        // It was cleared or failed, so later prefetches may try again
+        delete pathsState[path]
+      }
+
+      return getPrefetechedData(path).prefetchedPathData != null
+    })
+
+  pendingPrefetches[path] = prefetch
+  return prefetch
+}
+
 export const useIsPrefetchActive = () => {
   const { getSettings } = useRuntime()
   const storeSettings = getSettings('vtex.store')
@@ -242,52 +335,23 @@ export const usePrefetchAttempt = ({
       return
     }
 
-    const { pathsState, queue } = prefetchState
     if (href && href[0] !== '/') {
       // Should only work on relative paths
       return
     }
 
-    options.modifiers = navigationRouteModifiers
-    const navigationRoute = getNavigationRouteToNavigate(pages, options)
-    navigationRoute.original = options.to
-
-    if (pathsState[navigationRoute.path]?.fetching) {
-      // already fetching, no need to go any further
-      hasTried.current = true
-      return
-    }
-
-    const validCache = getCacheValidData(navigationRoute.path, prefetchState)
-
-    if (validCache.pathValid && validCache.routeValid) {
-      // cache all valid, no need to fetch anything
-      hasTried.current = true
-      return
-    }
-
-    if (!validCache.pathValid) {
-      pathsState[navigationRoute.path] = { fetching: true }
-    }
-
-    const priority = getPriorityForPage(page)
     hasTried.current = true
-
-    queue.add(
-      async () =>
-        prefetchRequests({
-          client,
-          navigationRoute,
-          page,
-          pages,
-          prefetchState,
-          hints,
-          renderMajor,
-          validCache,
-          storeSettings,
-        }),
-      { priority }
-    )
+    prefetchNavigation({
+      client,
+      options,
+      page,
+      pages,
+      prefetchState,
+      hints,
+      renderMajor,
+      storeSettings,
+      navigationRouteModifiers,
+    })
   }, [
     client,
     hints,
@@ -301,6 +365,48 @@ export const usePrefetchAttempt = ({
     storeSettings,
   ])
 
+  const canPrerender = !!storeSettings?.enablePrerender
+  const hoverTimeout = useRef<number>()
+
+  /** Prerenders links very likely to be clicked whose targets only the
+   * server renders, so loading them is instant. Pages of the store are
+   * rendered client side, which the data prefetch already speeds up. */
+  const attemptPrerender = useCallback(() => {
+    if (
+      !canPrerender ||
+      !href ||
+      href[0] !== '/' ||
+      !isPrefetchActive(storeSettings) ||
+      !getPrefetchPolicy().prerender ||
+      rendersClientSide(pages, {
+        ...options,
+        modifiers: navigationRouteModifiers,
+      })
+    ) {
+      return
+    }
+
+    prerender(href)
+  }, [
+    canPrerender,
+    href,
+    navigationRouteModifiers,
+    options,
+    pages,
+    storeSettings,
+  ])
+
+  const startHoverIntent = useCallback(() => {
+    window.clearTimeout(hoverTimeout.current)
+    hoverTimeout.current = window.setTimeout(attemptPrerender, HOVER_INTENT_MS)
+  }, [attemptPrerender])
+
+  const cancelHoverIntent = useCallback(() => {
+    window.clearTimeout(hoverTimeout.current)
+  }, [])
+
+  useEffect(() => cancelHoverIntent, [cancelHoverIntent])
+
   useOnView({
     ref,
     onView: ({ unobserve }) => {
@@ -320,7 +426,7 @@ export const usePrefetchAttempt = ({
       }, 1)
     },
     bailOut: !hints.mobile,
-    threshold: 0.75,
+    threshold: getPrefetchPolicy().visibilityThreshold,
   })
 
   const executePrefetch = useCallback(() => {
@@ -329,5 +435,28 @@ export const usePrefetchAttempt = ({
     }
   }, [attemptPrefetch, hints.desktop])
 
-  return executePrefetch
+  return { executePrefetch, startHoverIntent, cancelHoverIntent }
+}
+
+/** Prefetches the page of `target` whenever it changes, e.g. the top
+ * suggestion of a search as the user types. Returns the runtime's
+ * `prefetchPath`, for blocks that prefetch on their own events. */
+export const usePrefetchRoute = (
+  target?: string | PrefetchPathTarget | null,
+  options?: PrefetchPathOptions
+) => {
+  const { prefetchPath } = useRuntime()
+  const targetRef = useRef(target)
+  targetRef.current = target
+
+  const targetKey = target ? JSON.stringify(target) : null
+  const priority = options?.priority
+
+  useEffect(() => {
+    if (targetKey && targetRef.current) {
+      prefetchPath(targetRef.current, { priority })
+    }
+  }, [prefetchPath, priority, targetKey])
+
+  return prefetchPath
 }
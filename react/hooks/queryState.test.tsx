@@ -0,0 +1,133 @@
+import React from 'react'
+import { cleanup, render } from '@vtex/test-tools/react'
+
+import { RenderContextProvider } from '../components/RenderContext'
+import { queryParam, useQueryParam, useQueryState } from './queryState'
+
+afterEach(cleanup)
+
+const schema = {
+  page: queryParam.number({ default: 1, replace: true }),
+  colors: queryParam.array(),
+  sort: queryParam.string({ default: 'relevance' }),
+  exclusive: queryParam.boolean(),
+}
+
+type Setter = ReturnType<typeof useQueryState>[1]
+
+const renderQueryState = (query: Record<string, any>) => {
+  const setQuery = jest.fn()
+  const result = {} as { state: any; setState: Setter }
+
+  const Consumer = () => {
+    const [state, setState] = useQueryState(schema)
+    result.state = state
+    result.setState = setState as Setter
+    return null
+  }
+
+  render(
+    <RenderContextProvider runtime={{ query, setQuery } as any}>
+      <Consumer />
+    </RenderContextProvider>
+  )
+
+  return { result, setQuery }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve))
+
+describe('useQueryState', () => {
+  it('should decode the query with the schema and its defaults', () => {
+    const { result } = renderQueryState({
+      page: '3',
+      colors: ['red', 'blue'],
+      exclusive: 'true',
+    })
+
+    expect(result.state).toEqual({
+      page: 3,
+      colors: ['red', 'blue'],
+      sort: 'relevance',
+      exclusive: true,
+    })
+  })
+
+  it('should fall back to the defaults on values that cannot be decoded', () => {
+    const { result } = renderQueryState({ page: 'abc', exclusive: 'yes' })
+
+    expect(result.state.page).toBe(1)
+    expect(result.state.exclusive).toBeUndefined()
+  })
+
+  it('should batch updates made in the same tick', async () => {
+    const { result, setQuery } = renderQueryState({ page: '2' })
+
+    result.setState({ colors: ['a b'] })
+    result.setState((state) => ({ page: state.page + 1 }))
+    await flush()
+
+    expect(setQuery).toHaveBeenCalledTimes(1)
+    expect(setQuery).toHaveBeenCalledWith(
+      { colors: ['a%20b'], page: '3' },
+      { replace: false }
+    )
+  })
+
+  it('should replace the history entry when every param asks for it', async () => {
+    const { result, setQuery } = renderQueryState({ page: '2' })
+
+    result.setState({ page: 1 })
+    await flush()
+    result.setState({ sort: 'price' }, { replace: true })
+    await flush()
+
+    expect(setQuery.mock.calls).toEqual([
+      [{ page: undefined }, { replace: true }],
+      [{ sort: 'price' }, { replace: true }],
+    ])
+  })
+
+  it('should only update consumers when their params change', () => {
+    const setQuery = jest.fn()
+    const renders = jest.fn()
+
+    const Page = () => {
+      const [page] = useQueryParam('page', queryParam.number({ default: 1 }))
+      renders(page)
+      return null
+    }
+    const MemoizedPage = React.memo(Page)
+
+    const renderPage = (runtime: Record<string, any>) => (
+      <RenderContextProvider runtime={{ setQuery, ...runtime } as any}>
+        <MemoizedPage />
+      </RenderContextProvider>
+    )
+
+    const { rerender } = render(renderPage({ query: { page: '2' } }))
+    rerender(renderPage({ query: { page: '2', sort: 'price' } }))
+    rerender(renderPage({ query: { page: '2' }, preview: true }))
+    rerender(renderPage({ query: { page: '3' } }))
+
+    expect(renders.mock.calls).toEqual([[2], [3]])
+  })
+
+  it('should batch the updates of each provider apart', async () => {
+    const first = renderQueryState({ page: '2' })
+    const second = renderQueryState({ page: '5' })
+
+    first.result.setState({ sort: 'price' })
+    second.result.setState({ exclusive: true })
+    await flush()
+
+    expect(first.setQuery).toHaveBeenCalledWith(
+      { sort: 'price' },
+      { replace: false }
+    )
+    expect(second.setQuery).toHaveBeenCalledWith(
+      { exclusive: 'true' },
+      { replace: false }
+    )
+  })
+})
@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react'
+import { equals } from 'ramda'
+
+import { useQueryStore } from '../components/RenderContext'
+import { QueryStore, RawQuery, RawQueryValue } from '../utils/queryStore'
+
+export interface QueryParamConfig<T> {
+  /** Returns `undefined` when the value can't be decoded, so the default is
+   * used instead */
+  decode: (value: string | string[]) => T | undefined
+  /** Returns `undefined` to remove the param from the query string */
+  encode: (value: T) => string | string[] | undefined
+  default?: T
+  /** Updates to this param replace the current history entry instead of
+   * pushing a new one */
+  replace?: boolean
+}
+
+interface QueryParamOptions<T> {
+  default?: T
+  replace?: boolean
+}
+
+export type QueryStateSchema = Record<string, QueryParamConfig<any>>
+
+export type QueryState<S extends QueryStateSchema> = {
+  [K in keyof S]: S[K] extends QueryParamConfig<infer T>
+    ? S[K] extends { default: T }
+      ? T
+      : T | undefined
+    : never
+}
+
+export type QueryStateUpdate<S extends QueryStateSchema> =
+  | Partial<QueryState<S>>
+  | ((state: QueryState<S>) => Partial<QueryState<S>>)
+
+export interface SetQueryStateOptions {
+  /** Overrides the `replace` option of every updated param */
+  replace?: boolean
+}
+
+const first = (value: string | string[]) =>
+  Array.isArray(value) ? value[0] : value
+
+const toArray = (value: string | string[]) =>
+  (Array.isArray(value) ? value : [value]).filter((item) => item !== '')
+
+const toNumber = (value: string) => {
+  const number = value === '' ? NaN : Number(value)
+  return isNaN(number) ? undefined : number
+}
+
+// setQuery doesn't encode the values it is given
+const encodeString = (value: string) => encodeURIComponent(value)
+
+const createParam = <T, O extends QueryParamOptions<T>>(
+  decode: QueryParamConfig<T>['decode'],
+  encode: QueryParamConfig<T>['encode'],
+  options?: O
+) => ({ decode, encode, ...options } as QueryParamConfig<T> & O)
+
+export const queryParam = {
+  string: <O extends QueryParamOptions<string>>(options?: O) =>
+    createParam<string, O>(first, encodeString, options),
+  number: <O extends QueryParamOptions<number>>(options?: O) =>
+    createParam<number, O>(
+      (value) => toNumber(first(value)),
+      (value) => String(value),
+      options
+    ),
+  boolean: <O extends QueryParamOptions<boolean>>(options?: O) =>
+    createParam<boolean, O>(
+      (value) => {
+        const flag = first(value)
+        return flag === 'true' ? true : flag === 'false' ? false : undefined
+      },
+      (value) => String(value),
+      options
+    ),
+  array: <O extends QueryParamOptions<string[]>>(options?: O) =>
+    createParam<string[], O>(
+      toArray,
+      (value) => (value.length > 0 ? value.map(encodeString) : undefined),
+      options
+    ),
+  numberArray: <O extends QueryParamOptions<number[]>>(options?: O) =>
+    createParam<number[], O>(
+      (value) =>
+        toArray(value)
+          .map(toNumber)
+          .filter((number): number is number => number !== undefined),
+      (value) => (value.length > 0 ? value.map(String) : undefined),
+      options
+    ),
+}
+
+const decodeQueryParam = <T>(
+  config: QueryParamConfig<T>,
+  raw: RawQueryValue
+) => {
+  if (raw == null) {
+    return config.default
+  }
+  const value = config.decode(raw)
+  return value === undefined ? config.default : value
+}
+
+const encodeQueryParam = <T>(config: QueryParamConfig<T>, value?: T | null) =>
+  value == null || equals(value, config.default)
+    ? undefined
+    : config.encode(value)
+
+const decodeQueryState = <S extends QueryStateSchema>(
+  schema: S,
+  query: RawQuery
+) =>
+  Object.keys(schema).reduce((state, key) => {
+    state[key] = decodeQueryParam(schema[key], query[key])
+    return state
+  }, {} as Record<string, any>) as QueryState<S>
+
+/** The raw values of the schema's params, which only change along with them */
+const serializeRawState = (schema: QueryStateSchema, query: RawQuery) =>
+  JSON.stringify(
+    Object.keys(schema).reduce((raw, key) => {
+      raw[key] = query[key] ?? null
+      return raw
+    }, {} as RawQuery)
+  )
+
+/** The state as it will be once the pending updates are flushed */
+const getLatestState = <S extends QueryStateSchema>(
+  schema: S,
+  queryStore: QueryStore
+) => {
+  const state = decodeQueryState(schema, queryStore.getQuery())
+  const pendingValues = queryStore.getPendingValues()
+  Object.keys(pendingValues)
+    .filter((key) => key in schema)
+    .forEach((key) => {
+      state[key as keyof S] = pendingValues[key]
+    })
+  return state
+}
+
+/** Reads and writes typed values from the query string, as described by the
+ * schema. Consumers are only updated when one of the schema's params
+ * changes, not by unrelated query or runtime changes. */
+export const useQueryState = <S extends QueryStateSchema>(schema: S) => {
+  const queryStore = useQueryStore()
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0)
+
+  const schemaRef = useRef(schema)
+  schemaRef.current = schema
+
+  const rawState = serializeRawState(schema, queryStore.getQuery())
+  const rawStateRef = useRef(rawState)
+  rawStateRef.current = rawState
+
+  useEffect(() => {
+    const onQueryChanged = () => {
+      const nextRawState = serializeRawState(
+        schemaRef.current,
+        queryStore.getQuery()
+      )
+      if (nextRawState !== rawStateRef.current) {
+        forceUpdate()
+      }
+    }
+    // The query may have changed before subscribing
+    onQueryChanged()
+    return queryStore.subscribe(onQueryChanged)
+  }, [queryStore])
+
+  const state = useMemo(
+    () => decodeQueryState(schemaRef.current, JSON.parse(rawState)),
+    [rawState]
+  )
+
+  const setState = useCallback(
+    (update: QueryStateUpdate<S>, options: SetQueryStateOptions = {}) => {
+      const currentSchema = schemaRef.current
+      const values =
+        typeof update === 'function'
+          ? update(getLatestState(currentSchema, queryStore))
+          : update
+
+      const keys = Object.keys(values).filter((key) => currentSchema[key])
+      if (keys.length === 0) {
+        return
+      }
+
+      const query: RawQuery = {}
+      const decodedValues: Record<string, any> = {}
+      keys.forEach((key) => {
+        const config = currentSchema[key]
+        query[key] = encodeQueryParam(config, values[key])
+        decodedValues[key] = values[key] ?? config.default
+      })
+      queryStore.update(
+        query,
+        decodedValues,
+        keys.every(
+          (key) => options.replace ?? currentSchema[key].replace ?? false
+        )
+      )
+    },
+    [queryStore]
+  )
+
+  return [state, setState] as const
+}
+
+/** Shorthand for `useQueryState` with a single param */
+export const useQueryParam = <C extends QueryParamConfig<any>>(
+  name: string,
+  config: C
+) => {
+  const [state, setState] = useQueryState({ [name]: config })
+  const setValue = useCallback(
+    (
+      value: QueryState<{ value: C }>['value'],
+      options?: SetQueryStateOptions
+    ) => setState({ [name]: value }, options),
+    [name, setState]
+  )
+
+  return [state[name] as QueryState<{ value: C }>['value'], setValue] as const
+}
@@ -0,0 +1,29 @@
+import { useMemo } from 'react'
+
+import { useRuntime } from '../components/RenderContext'
+import { matchRoute, RouteMatchOptions } from '../utils/pages'
+
+type Options = Pick<RouteMatchOptions, 'exact' | 'params'>
+
+/** Matches the current route against a page name or a path, the same way the
+ * router does. Returns null when it doesn't match. */
+export const useRouteMatch = (
+  pageOrPath?: string | null,
+  { exact, params }: Options = {}
+) => {
+  const { pages, route, rootPath, culture } = useRuntime()
+  const locale = culture?.locale
+
+  return useMemo(
+    () =>
+      pageOrPath && route
+        ? matchRoute(pageOrPath, route, pages, {
+            exact,
+            params,
+            locale,
+            rootPath,
+          })
+        : null,
+    [pageOrPath, route, pages, exact, params, locale, rootPath]
+  )
+}
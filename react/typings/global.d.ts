@@ -5,12 +5,18 @@ import { Component } from 'react'
 import ExtensionContainer from '../ExtensionContainer'
 import ExtensionPoint from '../ExtensionPoint'
 import Link from '../components/Link'
-import { History, Location } from 'history'
+import { Action, History, Location } from 'history'
 import { HelmetData } from 'react-helmet'
 import { TreePathProps } from '../utils/treePath'
 import { LayoutContainer } from '../core/main'
 import { IntrospectionResultData } from 'apollo-cache-inmemory'
 import { NavigationRouteModifier } from '../utils/pages'
+import { NavigationGuard } from '../utils/navigationGuards'
+import { NavigationHistory } from '../utils/navigationHistory'
+import { PersistingQueryRule } from '../utils/persistingQueries'
+import { MatchingRoute } from '../utils/routeIndex'
+import { RouterAdapter } from '../utils/routerAdapter'
+import { ScrollRestoration } from '../utils/scrollRestoration'
 import { Device, DeviceInfo } from '../utils/withDevice'
 
 declare global {
@@ -130,6 +136,29 @@ declare global {
     map?: string[]
     routeId: string
     blockId: string
+    /** Path templates of the page on each locale or language, e.g. `pt-BR` */
+    localizedPaths?: Record<string, LocalizedPagePath>
+    /** Pages with higher priority win when several templates match a path.
+     * Defaults to 0 */
+    priority?: number
+    /** Types of the params of the page's path, by name. Params without one
+     * are strings */
+    paramTypes?: Record<string, RouteParamType | RouteParamTypeName>
+  }
+
+  type RouteParamTypeName = 'string' | 'int' | 'slug' | 'enum' | 'splat-array'
+
+  interface RouteParamType {
+    type: RouteParamTypeName
+    /** Values accepted by `enum` params */
+    values?: string[]
+    /** Value of the param when the path doesn't have it */
+    default?: any
+  }
+
+  interface LocalizedPagePath {
+    path: string
+    canonical?: string
   }
 
   interface NavigationRoute {
@@ -138,6 +167,18 @@ declare global {
     id: string
   }
 
+  interface PrefetchPathTarget {
+    page: string
+    params?: Record<string, any>
+    query?: string
+  }
+
+  interface PrefetchPathOptions {
+    /** Prefetches with higher priorities start first, product pages default
+     * to 1 and other pages to 0 */
+    priority?: number
+  }
+
   interface SetQueryOptions {
     merge?: boolean
     replace?: boolean
@@ -167,6 +208,7 @@ declare global {
       navigationRoute: NavigationRoute
       renderRouting?: true
       scrollOptions?: RenderScrollOptions
+      scrollRestoration?: ScrollRestoration
       fetchPage?: boolean
       preventRemount?: boolean
     }
@@ -208,6 +250,13 @@ declare global {
     addMessages: (newMessages: RenderContext['messages']) => Promise<void>
     amp: boolean
     addNavigationRouteModifier: (modifier: NavigationRouteModifier) => void
+    addNavigationGuard: (guard: NavigationGuard) => () => void
+    /** Carries the query key over to the URLs navigated to. Returns a function
+     * that stops persisting it */
+    addPersistingQueryKey: (
+      key: string,
+      rule?: PersistingQueryRule
+    ) => () => void
     binding: RenderRuntime['binding']
     components: RenderRuntime['components']
     contentMap: RenderRuntime['contentMap']
@@ -226,21 +275,34 @@ declare global {
     getSettings: (app: string) => any
     goBack: () => void
     hints: RenderHints
-    history: History | null
+    history: RouterAdapter | null
     inspect: RenderRuntime['inspect']
+    /** Resolves to whether the user is logged in */
+    isAuthenticated: () => Promise<boolean>
     messages: RenderRuntime['messages']
     navigate: (options: NavigateOptions) => boolean
-    onPageChanged: (location: RenderHistoryLocation) => void
+    navigationError: NavigationError | null
+    navigationHistory: NavigationHistory
+    onPageChanged: (location: RenderHistoryLocation, action?: Action) => void
     page: RenderRuntime['page']
     pages: RenderRuntime['pages']
     patchSession: (data?: any) => Promise<void>
     platform: string
     prefetchDefaultPages: (routeIds: string[]) => Promise<void>
     prefetchPage: (name: string) => void
+    /** Prefetches the page of a path, or of a page and its params, like links
+     * do once seen. Resolves to whether its data is ready. */
+    prefetchPath: (
+      target: string | PrefetchPathTarget,
+      options?: PrefetchPathOptions
+    ) => Promise<boolean>
     preview: RenderRuntime['preview']
     production: RenderRuntime['production']
     publicEndpoint: RenderRuntime['publicEndpoint']
     query: RenderRuntime['query']
+    /** Navigates to the login page, which sends the user back to `returnUrl`,
+     * the current URL by default, once logged in */
+    redirectToLogin: (returnUrl?: string) => boolean
     renderMajor: number
     rootPath?: string
     route: RenderRuntime['route']
@@ -256,6 +318,21 @@ declare global {
     navigationRouteModifiers: Set<NavigationRouteModifier>
   }
 
+  /** The `pageCache` setting of `vtex.store`, which keeps snapshots of
+   * previous pages to restore them instantly on back/forward navigations.
+   * Disabled when not set */
+  interface PageCacheOptions {
+    /** How many history entries are kept, defaults to 10 */
+    maxEntries?: number
+  }
+
+  interface NavigationError {
+    error: Error
+    /** Path, with query and hash, of the navigation that failed */
+    path: string
+    attempts: number
+  }
+
   interface PageContextOptions {
     scope?: string
     device?: string
@@ -332,6 +409,37 @@ declare global {
   interface RouteMetaTags {
     description?: string
     keywords?: string[]
+    robots?: string
+  }
+
+  /** The `navigationAccessibility` setting of `vtex.store` */
+  interface NavigationAccessibilityOptions {
+    /** Announces the title of the new page to screen readers. Defaults to
+     * `true` */
+    announce?: boolean
+    /** Moves the focus to the new page's content. Defaults to `true` */
+    focus?: boolean
+    /** Element that gets the focus when no block designates one. Defaults to
+     * the main landmark */
+    focusSelector?: string
+  }
+
+  interface LoadingBarOptions {
+    /** Milliseconds a navigation takes before the bar shows up, so fast ones
+     * don't flash it. Defaults to 150 */
+    delay?: number
+    /** Color of the bar. Defaults to the theme's `action-primary` color */
+    color?: string
+    /** Height of the bar in pixels. Defaults to 4 */
+    height?: number
+  }
+
+  /** The `routeHead` setting of `vtex.store` */
+  interface RouteHeadOptions {
+    /** Template of the document title, where `%s` is the route's title */
+    titleTemplate?: string
+    /** Title of routes without one */
+    defaultTitle?: string
   }
 
   interface MatchingPage {
@@ -399,6 +507,8 @@ declare global {
 
   interface ParsedServerPageResponse extends ServerPageResponse {
     matchingPage: MatchingServerPage
+    /** Path the server redirected to, if any */
+    redirect?: string
   }
 
   interface ParsedPageQueryResponse {
@@ -546,7 +656,8 @@ declare global {
     render(
       name: string,
       runtime: RenderRuntime,
-      element?: HTMLElement
+      element?: HTMLElement,
+      router?: RouterAdapter
     ): Rendered
   }
 
@@ -571,6 +682,8 @@ declare global {
     __RENDER_8_HOT__: HotEmitterRegistry
     __RENDER_8_RUNTIME__: RuntimeExports
     __RENDER_8_SESSION__: RenderSession
+    /** Lists the page templates that match a path. Only set on development */
+    __RENDER_MATCHING_ROUTES__?: (path: string) => MatchingRoute[]
     __REQUEST_ID__: string
     __RUNTIME__: RenderRuntime
     __RUNTIME_EXTENSIONS__: RenderRuntime['extensions']
@@ -0,0 +1,58 @@
+import {
+  fetchIsAuthenticated,
+  getLoginOptions,
+  hasProtectedPages,
+} from './auth'
+
+describe('#fetchIsAuthenticated', () => {
+  it('should read the authentication from the session', async () => {
+    const fetcher = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        namespaces: { profile: { isAuthenticated: { value: 'true' } } },
+      }),
+    })
+
+    expect(await fetchIsAuthenticated(fetcher, '/en')).toBe(true)
+    expect(fetcher).toHaveBeenCalledWith(
+      '/en/api/sessions?items=profile.isAuthenticated',
+      {
+        credentials: 'same-origin',
+      }
+    )
+  })
+
+  it('should count failures as logged out', async () => {
+    expect(
+      await fetchIsAuthenticated(jest.fn().mockResolvedValue({ ok: false }))
+    ).toBe(false)
+    expect(
+      await fetchIsAuthenticated(
+        jest.fn().mockRejectedValue(new Error('Network error'))
+      )
+    ).toBe(false)
+  })
+})
+
+describe('#getLoginOptions', () => {
+  it('should pass the return URL in the query', () => {
+    expect(getLoginOptions('store.login', '/account?tab=orders')).toEqual({
+      page: 'store.login',
+      query: 'returnUrl=%2Faccount%3Ftab%3Dorders',
+    })
+  })
+})
+
+describe('#hasProtectedPages', () => {
+  it('should tell whether some page needs authentication', () => {
+    expect(hasProtectedPages({ 'store.home': { path: '/' } } as any)).toBe(
+      false
+    )
+    expect(
+      hasProtectedPages({
+        'store.home': { path: '/' },
+        'store.account': { path: '/account', auth: true },
+      } as any)
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,46 @@
+import { NavigateOptions } from './pages'
+
+interface SessionResponse {
+  namespaces?: {
+    profile?: {
+      isAuthenticated?: { value: string }
+    }
+  }
+}
+
+export const isProtectedPage = (pages: Pages, page: string) =>
+  !!pages[page]?.auth
+
+export const hasProtectedPages = (pages: Pages) =>
+  Object.keys(pages).some((page) => isProtectedPage(pages, page))
+
+/** Asks the session API whether the user is logged in. Any failure counts as
+ * logged out, so protected pages are never rendered by mistake. */
+export const fetchIsAuthenticated = async (
+  fetcher: GlobalFetch['fetch'],
+  rootPath = ''
+) => {
+  try {
+    const response = await fetcher(
+      `${rootPath}/api/sessions?items=profile.isAuthenticated`,
+      { credentials: 'same-origin' }
+    )
+    if (!response.ok) {
+      return false
+    }
+
+    const session: SessionResponse = await response.json()
+    return session.namespaces?.profile?.isAuthenticated?.value === 'true'
+  } catch (e) {
+    return false
+  }
+}
+
+/** `returnUrl` is where the login page should send the user back to */
+export const getLoginOptions = (
+  loginPage: string,
+  returnUrl: string
+): NavigateOptions => ({
+  page: loginPage,
+  query: `returnUrl=${encodeURIComponent(returnUrl)}`,
+})
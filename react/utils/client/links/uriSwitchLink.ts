@@ -3,6 +3,7 @@ import { canUseDOM } from 'exenv'
 import {
   ASTNode,
   DirectiveNode,
+  DocumentNode,
   OperationDefinitionNode,
   StringValueNode,
   visit,
@@ -77,6 +78,11 @@ const extractHints = (query: ASTNode, meta: CacheHints) => {
   }
 }
 
+/** Scope of the query's cache, which is `segment` or `private` for data that
+ * depends on the user's session */
+export const getQueryScope = (query: DocumentNode, cacheHints: CacheHintsMap) =>
+  extractHints(query, cacheHints[generateHash(query)]).scope
+
 export const createUriSwitchLink = (
   baseURI: string,
   initialRuntime: RenderRuntime
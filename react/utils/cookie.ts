@@ -2,6 +2,18 @@ import { canUseDOM } from 'exenv'
 
 const ONE_YEAR_S = 60 * 60 * 24 * 365
 
+export const getCookie = (key: string) => {
+  if (!canUseDOM) {
+    return undefined
+  }
+
+  const cookie = window.document.cookie
+    .split(';')
+    .map((item) => item.trim())
+    .find((item) => item.startsWith(`${key}=`))
+  return cookie?.slice(key.length + 1)
+}
+
 export const setCookie = (
   key: string,
   value: string,
@@ -0,0 +1,39 @@
+import { fetchWithRetry } from './fetch'
+
+describe('#fetchWithRetry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should retry failed requests', async () => {
+    const response = { status: 200 } as Response
+    const fetcher = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(response)
+
+    await expect(fetchWithRetry('/', {}, fetcher)).resolves.toEqual({
+      response,
+      error: null,
+    })
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not retry requests that were aborted', async () => {
+    const abortController = new AbortController()
+    const fetcher = jest.fn().mockImplementation(() => {
+      abortController.abort()
+      return Promise.reject(new Error('The user aborted a request.'))
+    })
+
+    await expect(
+      fetchWithRetry('/', { signal: abortController.signal }, fetcher)
+    ).rejects.toThrow('The user aborted a request.')
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(console.error).not.toHaveBeenCalled()
+  })
+})
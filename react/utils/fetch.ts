@@ -25,6 +25,10 @@ const canRetry = (status: number) => RETRY_STATUSES.includes(status)
 const ok = (status: number) => 200 <= status && status < 300
 const isNotFound = (status: number) => status === 404
 
+/** Requests whose signal was aborted are not retried, since whoever made them
+ * is not waiting for the response anymore. */
+const isAborted = (init: RequestInit) => !!init.signal?.aborted
+
 export const fetchWithRetry = (
   url: string,
   init: RequestInit,
@@ -55,6 +59,10 @@ export const fetchWithRetry = (
         return { response, error: null }
       })
       .catch((error) => {
+        if (isAborted(init)) {
+          throw error
+        }
+
         console.error(error)
 
         if (attempt >= maxRetries || !canRetry(status)) {
@@ -62,7 +70,12 @@ export const fetchWithRetry = (
         }
 
         const ms = 2 ** attempt * 500
-        return delay(ms).then(() => callFetch(++attempt))
+        return delay(ms).then(() => {
+          if (isAborted(init)) {
+            throw error
+          }
+          return callFetch(++attempt)
+        })
       })
 
   return callFetch()
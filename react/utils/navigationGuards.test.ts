@@ -0,0 +1,81 @@
+import { createMemoryHistory } from 'history'
+
+import {
+  BeforeNavigateEvent,
+  deferTransition,
+  getUserConfirmation,
+  NavigationGuard,
+  runBeforeNavigateGuards,
+} from './navigationGuards'
+
+const event: BeforeNavigateEvent = {
+  action: 'PUSH',
+  route: { id: 'store.product', params: { slug: 'shirt' }, path: '/shirt/p' },
+  query: '',
+}
+
+describe('#runBeforeNavigateGuards', () => {
+  it('should allow the navigation when no guard objects', async () => {
+    const guards = new Set<NavigationGuard>([
+      { beforeNavigate: () => undefined },
+      { beforeNavigate: () => Promise.resolve(true) },
+      { afterNavigate: () => {} },
+    ])
+
+    expect(await runBeforeNavigateGuards(guards, event)).toEqual({
+      type: 'allow',
+    })
+  })
+
+  it('should settle on the first guard that cancels or redirects', async () => {
+    const lastGuard = jest.fn()
+    const guards = new Set<NavigationGuard>([
+      { beforeNavigate: async () => ({ page: 'store.login' }) },
+      { beforeNavigate: () => false },
+      { beforeNavigate: lastGuard },
+    ])
+
+    expect(await runBeforeNavigateGuards(guards, event)).toEqual({
+      type: 'redirect',
+      options: { page: 'store.login' },
+    })
+    expect(lastGuard).not.toHaveBeenCalled()
+  })
+
+  it('should ignore guards that throw', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const guards = new Set<NavigationGuard>([
+      {
+        beforeNavigate: () => {
+          throw new Error('boom')
+        },
+      },
+      { beforeNavigate: () => false },
+    ])
+
+    expect(await runBeforeNavigateGuards(guards, event)).toEqual({
+      type: 'cancel',
+    })
+  })
+})
+
+describe('#getUserConfirmation', () => {
+  it('should let routers built with it wait for deferred checks', async () => {
+    const history = createMemoryHistory({
+      initialEntries: ['/a', '/b'],
+      initialIndex: 1,
+      getUserConfirmation,
+    })
+    let allow: (allowed: boolean) => void = () => {}
+    history.block(() =>
+      deferTransition(() => new Promise((resolve) => (allow = resolve)))
+    )
+
+    history.goBack()
+    expect(history.location.pathname).toBe('/b')
+
+    allow(true)
+    await Promise.resolve()
+    expect(history.location.pathname).toBe('/a')
+  })
+})
@@ -0,0 +1,120 @@
+import { Action } from 'history'
+
+import { NavigationStageTimings } from './navigationProgress'
+import { NavigateOptions } from './pages'
+
+export interface BeforeNavigateEvent {
+  action: Action
+  route: NavigationRoute
+  query: string
+}
+
+export interface NavigationTimings {
+  start: number
+  end: number
+  duration: number
+  stages: NavigationStageTimings
+}
+
+export interface AfterNavigateEvent {
+  action: Action
+  page: string
+  route: RenderRuntime['route']
+  query: RenderRuntime['query']
+  timings: NavigationTimings
+}
+
+/** `false` cancels the navigation, a `NavigateOptions` object redirects it to
+ * another location and anything else lets it go through */
+export type NavigationGuardResult = boolean | void | NavigateOptions
+
+export interface NavigationGuard {
+  beforeNavigate?: (
+    event: BeforeNavigateEvent
+  ) => NavigationGuardResult | Promise<NavigationGuardResult>
+  afterNavigate?: (event: AfterNavigateEvent) => void
+}
+
+export type NavigationGuardDecision =
+  | { type: 'allow' }
+  | { type: 'cancel' }
+  | { type: 'redirect'; options: NavigateOptions }
+
+export const hasBeforeNavigateGuards = (guards: Set<NavigationGuard>) =>
+  Array.from(guards).some((guard) => !!guard.beforeNavigate)
+
+/** Runs the `beforeNavigate` handlers one after another, in the order they were
+ * added. The first one to cancel or redirect the navigation settles it. */
+export const runBeforeNavigateGuards = async (
+  guards: Set<NavigationGuard>,
+  event: BeforeNavigateEvent
+): Promise<NavigationGuardDecision> => {
+  for (const guard of Array.from(guards)) {
+    if (!guard.beforeNavigate) {
+      continue
+    }
+
+    let result: NavigationGuardResult
+    try {
+      result = await guard.beforeNavigate(event)
+    } catch (e) {
+      console.error('Navigation guard failed, ignoring it.', e)
+      continue
+    }
+
+    if (result === false) {
+      return { type: 'cancel' }
+    }
+
+    if (result && typeof result === 'object') {
+      return { type: 'redirect', options: result }
+    }
+  }
+
+  return { type: 'allow' }
+}
+
+export const runAfterNavigateGuards = (
+  guards: Set<NavigationGuard>,
+  event: AfterNavigateEvent
+) => {
+  guards.forEach((guard) => {
+    if (!guard.afterNavigate) {
+      return
+    }
+    try {
+      guard.afterNavigate(event)
+    } catch (e) {
+      console.error('Navigation guard failed after navigating.', e)
+    }
+  })
+}
+
+const pendingTransitions = new Map<string, () => Promise<boolean>>()
+let transitionsCount = 0
+
+/** `history.block` prompts are synchronous, so async checks are registered here
+ * and the returned key is used as the prompt message. `getUserConfirmation`
+ * then resolves the transition once the check settles. */
+export const deferTransition = (check: () => Promise<boolean>) => {
+  const key = `__renderNavigationGuard${++transitionsCount}`
+  pendingTransitions.set(key, check)
+  return key
+}
+
+/** Routers must be built with it, e.g. `createBrowserHistory({
+ * getUserConfirmation })`, for navigation guards to decide on back/forward
+ * navigations. Other routers ask the user to confirm them with the key. */
+export const getUserConfirmation = (
+  message: string,
+  callback: (result: boolean) => void
+) => {
+  const check = pendingTransitions.get(message)
+  if (!check) {
+    callback(window.confirm(message))
+    return
+  }
+
+  pendingTransitions.delete(message)
+  check().then(callback, () => callback(true))
+}
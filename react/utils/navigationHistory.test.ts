@@ -0,0 +1,91 @@
+import { NavigationHistory, NavigationHistoryEntry } from './navigationHistory'
+
+const createEntry = (key: string, routeId = 'store.home') =>
+  ({
+    key,
+    routeId,
+    params: {},
+    path: `/${key}`,
+    query: '',
+    timestamp: 0,
+  } as NavigationHistoryEntry)
+
+const getKeys = (navigationHistory: NavigationHistory) =>
+  navigationHistory.getState().entries.map(({ key }) => key)
+
+describe('NavigationHistory', () => {
+  afterEach(() => {
+    window.sessionStorage.clear()
+  })
+
+  it('should push entries and drop the ones ahead of the current entry', () => {
+    const navigationHistory = new NavigationHistory()
+
+    navigationHistory.record('PUSH', createEntry('a'))
+    navigationHistory.record('PUSH', createEntry('b'))
+    navigationHistory.record('POP', createEntry('a'))
+    navigationHistory.record('PUSH', createEntry('c'))
+
+    expect(getKeys(navigationHistory)).toEqual(['a', 'c'])
+    expect(navigationHistory.getState().index).toBe(1)
+  })
+
+  it('should move the current entry on back/forward', () => {
+    const navigationHistory = new NavigationHistory()
+
+    navigationHistory.record('PUSH', createEntry('a'))
+    navigationHistory.record('PUSH', createEntry('b'))
+    navigationHistory.record('POP', createEntry('a'))
+
+    expect(getKeys(navigationHistory)).toEqual(['a', 'b'])
+    expect(navigationHistory.getState().index).toBe(0)
+  })
+
+  it('should replace the current entry', () => {
+    const navigationHistory = new NavigationHistory()
+
+    navigationHistory.record('PUSH', createEntry('a'))
+    navigationHistory.record('REPLACE', createEntry('b'))
+
+    expect(getKeys(navigationHistory)).toEqual(['b'])
+  })
+
+  it('should persist the entries in sessionStorage', () => {
+    const listener = jest.fn()
+    const navigationHistory = new NavigationHistory()
+    navigationHistory.subscribe(listener)
+
+    navigationHistory.record('PUSH', createEntry('a', 'store.product'))
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(new NavigationHistory().getState()).toEqual({
+      entries: [createEntry('a', 'store.product')],
+      index: 0,
+    })
+  })
+
+  it('should record retries of a navigation on the same entry', () => {
+    const navigationHistory = new NavigationHistory()
+
+    navigationHistory.record('PUSH', createEntry('a'))
+    navigationHistory.record('PUSH', createEntry('b'))
+    navigationHistory.record('PUSH', createEntry('b'))
+
+    expect(getKeys(navigationHistory)).toEqual(['a', 'b'])
+    expect(navigationHistory.getState().index).toBe(1)
+  })
+
+  it('should complete entries once their page is known', () => {
+    const navigationHistory = new NavigationHistory()
+
+    navigationHistory.record('PUSH', createEntry('a'))
+    navigationHistory.update('a', { routeId: 'store.search', title: 'Shirts' })
+    navigationHistory.record('PUSH', createEntry('b'))
+    navigationHistory.record('POP', createEntry('a'))
+
+    expect(navigationHistory.getState().entries[0]).toMatchObject({
+      routeId: 'store.search',
+      title: 'Shirts',
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { Action } from 'history'
+
+import { readSessionStorage, writeSessionStorage } from './sessionStorage'
+
+export interface NavigationHistoryEntry {
+  /** Key of the history entry */
+  key: string
+  routeId: string
+  params: Record<string, any>
+  path: string
+  query: string
+  title?: string
+  timestamp: number
+}
+
+export interface NavigationHistoryState {
+  entries: NavigationHistoryEntry[]
+  /** Position of the current entry in `entries` */
+  index: number
+}
+
+const STORAGE_KEY = '__renderNavigationHistory'
+const MAX_ENTRIES = 50
+
+const EMPTY_STATE: NavigationHistoryState = { entries: [], index: -1 }
+
+/** Keys entries of routers that don't key their locations */
+export const createEntryKey = () => Math.random().toString(36).substr(2, 8)
+
+/** Stack of the entries routed by the runtime in this tab. It mirrors the
+ * browser's history, which can't be read, so it survives full page loads. */
+export class NavigationHistory {
+  private state: NavigationHistoryState = readSessionStorage(
+    STORAGE_KEY,
+    EMPTY_STATE
+  )
+  private listeners = new Set<() => void>()
+
+  public getState() {
+    return this.state
+  }
+
+  public subscribe(listener: () => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public record(action: Action, entry: NavigationHistoryEntry) {
+    const { entries, index } = this.state
+    const knownIndex = entries.findIndex(({ key }) => key === entry.key)
+
+    let nextEntries: NavigationHistoryEntry[]
+    let nextIndex: number
+
+    if (action === 'POP' && knownIndex !== -1) {
+      // Back/forward keeps the stack, only the current position moves
+      nextEntries = entries.map((current, position) =>
+        position === knownIndex
+          ? { ...current, title: entry.title ?? current.title }
+          : current
+      )
+      nextIndex = knownIndex
+    } else if (
+      index !== -1 &&
+      (action === 'REPLACE' || entries[index].key === entry.key)
+    ) {
+      // Retries of a failed navigation are recorded again on the same entry
+      nextEntries = entries.map((current, position) =>
+        position === index ? entry : current
+      )
+      nextIndex = index
+    } else {
+      nextEntries = [...entries.slice(0, index + 1), entry]
+      nextIndex = nextEntries.length - 1
+    }
+
+    const overflow = Math.max(nextEntries.length - MAX_ENTRIES, 0)
+    this.setState({
+      entries: nextEntries.slice(overflow),
+      index: nextIndex - overflow,
+    })
+  }
+
+  /** Completes the entry once its page is known, e.g. after it is fetched */
+  public update(
+    key: string,
+    data: Partial<Pick<NavigationHistoryEntry, 'routeId' | 'params' | 'title'>>
+  ) {
+    const { entries, index } = this.state
+    if (!entries.some((entry) => entry.key === key)) {
+      return
+    }
+
+    this.setState({
+      entries: entries.map((entry) =>
+        entry.key === key ? { ...entry, ...data } : entry
+      ),
+      index,
+    })
+  }
+
+  private setState(state: NavigationHistoryState) {
+    this.state = state
+    writeSessionStorage(STORAGE_KEY, this.state)
+    this.listeners.forEach((listener) => listener())
+  }
+}
@@ -0,0 +1,46 @@
+import { NavigationProgress } from './navigationProgress'
+
+describe('NavigationProgress', () => {
+  let now: jest.SpyInstance
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+  })
+
+  afterEach(() => {
+    now.mockRestore()
+  })
+
+  it('should add up the stages that ended, in any order', () => {
+    const progress = new NavigationProgress()
+
+    expect(progress.getProgress()).toBe(0)
+    expect(progress.mark('fetched')).toBeCloseTo(0.5)
+    expect(progress.mark('assetsLoaded')).toBeCloseTo(0.75)
+    expect(progress.mark('hydrated')).toBeCloseTo(0.9)
+    expect(progress.mark('committed')).toBe(1)
+  })
+
+  it('should be done once the page is committed, even with skipped stages', () => {
+    const progress = new NavigationProgress()
+
+    expect(progress.mark('committed')).toBe(1)
+  })
+
+  it('should time each stage from the start of the navigation', () => {
+    const progress = new NavigationProgress()
+
+    now.mockReturnValue(1200)
+    progress.mark('fetched')
+    now.mockReturnValue(1300)
+    progress.mark('fetched')
+    progress.mark('committed')
+
+    expect(progress.getTimings()).toEqual({
+      start: 1000,
+      end: 1300,
+      duration: 300,
+      stages: { fetched: 200, committed: 300 },
+    })
+  })
+})
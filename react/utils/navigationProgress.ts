@@ -0,0 +1,62 @@
+import { NavigationTimings } from './navigationGuards'
+
+/** - `fetched`: the data of the new page arrived
+ * - `hydrated`: its queries were written to the Apollo cache
+ * - `assetsLoaded`: the assets of its components were loaded
+ * - `committed`: it was rendered */
+export type NavigationStage =
+  | 'fetched'
+  | 'hydrated'
+  | 'assetsLoaded'
+  | 'committed'
+
+/** Milliseconds from the start of the navigation to the end of each stage */
+export type NavigationStageTimings = Partial<Record<NavigationStage, number>>
+
+// Stages may end in any order, e.g. hydration and asset loading run side by
+// side, so progress is the sum of the weights of the stages that ended.
+const STAGE_WEIGHTS: Record<NavigationStage, number> = {
+  fetched: 0.5,
+  hydrated: 0.15,
+  assetsLoaded: 0.25,
+  committed: 0.1,
+}
+
+/** Tracks the stages of a navigation. Stages that don't apply to it, e.g. the
+ * fetch of a page that was already loaded, are skipped. */
+export class NavigationProgress {
+  private stages: NavigationStageTimings = {}
+
+  public constructor(public readonly start = Date.now()) {}
+
+  /** Returns how far along the navigation is, from 0 to 1 */
+  public mark(stage: NavigationStage) {
+    if (this.stages[stage] === undefined) {
+      this.stages[stage] = Date.now() - this.start
+    }
+
+    return this.getProgress()
+  }
+
+  public getProgress() {
+    if (this.stages.committed !== undefined) {
+      return 1
+    }
+
+    return (Object.keys(this.stages) as NavigationStage[]).reduce(
+      (progress, stage) => progress + STAGE_WEIGHTS[stage],
+      0
+    )
+  }
+
+  public getTimings(): NavigationTimings {
+    const duration = this.stages.committed ?? Date.now() - this.start
+
+    return {
+      start: this.start,
+      end: this.start + duration,
+      duration,
+      stages: { ...this.stages },
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { getPageExtensions, PageCache, PageSnapshot } from './pageCache'
+
+const createSnapshot = (page: string) =>
+  (({
+    page,
+    route: { id: page, path: `/${page}`, params: {} },
+    query: {},
+    extensions: {},
+  } as unknown) as PageSnapshot)
+
+describe('PageCache', () => {
+  it('should keep snapshots by history entry', () => {
+    const cache = new PageCache()
+    const snapshot = createSnapshot('store.home')
+
+    cache.set('key1', snapshot)
+
+    expect(cache.get('key1')).toBe(snapshot)
+    expect(cache.get('key2')).toBeUndefined()
+  })
+
+  it('should drop the least recently used snapshots', () => {
+    const cache = new PageCache({ maxEntries: 2 })
+
+    cache.set('key1', createSnapshot('store.home'))
+    cache.set('key2', createSnapshot('store.product'))
+    cache.get('key1')
+    cache.set('key3', createSnapshot('store.search'))
+
+    expect(cache.get('key1')).toBeDefined()
+    expect(cache.get('key2')).toBeUndefined()
+    expect(cache.get('key3')).toBeDefined()
+  })
+})
+
+describe('#getPageExtensions', () => {
+  it('should only keep the extensions of the page tree', () => {
+    const extensions = {
+      'store.home': { component: 'Home' },
+      'store.home/shelf': { component: 'Shelf' },
+      'store.home#landing': { component: 'Landing' },
+      'store.product': { component: 'Product' },
+    } as any
+
+    expect(Object.keys(getPageExtensions(extensions, 'store.home'))).toEqual([
+      'store.home',
+      'store.home/shelf',
+    ])
+  })
+})
@@ -0,0 +1,55 @@
+export interface PageSnapshot {
+  page: RenderRuntime['page']
+  route: RenderRuntime['route']
+  query: RenderRuntime['query']
+  /** Only the extensions of the page's tree */
+  extensions: RenderRuntime['extensions']
+}
+
+const DEFAULT_MAX_ENTRIES = 10
+
+export const getPageExtensions = (
+  extensions: RenderRuntime['extensions'],
+  page: string
+) =>
+  Object.keys(extensions).reduce((acc, treePath) => {
+    if (treePath === page || treePath.startsWith(`${page}/`)) {
+      acc[treePath] = extensions[treePath]
+    }
+    return acc
+  }, {} as RenderRuntime['extensions'])
+
+/** Snapshots of the pages the user has been on, keyed by history entry, so
+ * back/forward navigations can restore them without fetching anything. The
+ * least recently used snapshots are dropped first. */
+export class PageCache {
+  private snapshots = new Map<string, PageSnapshot>()
+  private maxEntries: number
+
+  constructor({ maxEntries = DEFAULT_MAX_ENTRIES }: PageCacheOptions = {}) {
+    this.maxEntries = maxEntries
+  }
+
+  public get(key: string) {
+    const snapshot = this.snapshots.get(key)
+    if (snapshot) {
+      this.snapshots.delete(key)
+      this.snapshots.set(key, snapshot)
+    }
+    return snapshot
+  }
+
+  public set(key: string, snapshot: PageSnapshot) {
+    this.snapshots.delete(key)
+    this.snapshots.set(key, snapshot)
+
+    const keys = Array.from(this.snapshots.keys())
+    keys
+      .slice(0, Math.max(keys.length - this.maxEntries, 0))
+      .forEach((oldKey) => this.snapshots.delete(oldKey))
+  }
+
+  public clear() {
+    this.snapshots.clear()
+  }
+}
@@ -1,4 +1,17 @@
-import { getComparablePrecedence } from './pages'
+import {
+  buildPath,
+  getComparablePrecedence,
+  getAlternatePaths,
+  getNavigationRouteToNavigate,
+  getMatchingRoutes,
+  getRouteFromPath,
+  matchRoute,
+  navigate,
+  setRouteMatchingOptions,
+} from './pages'
+import { isPrerendered } from './speculation'
+
+jest.mock('./speculation', () => ({ isPrerendered: jest.fn() }))
 
 describe('#getPrecedence', () => {
   it('should set precedence as expected', () => {
@@ -37,3 +50,504 @@ describe('#getPrecedence', () => {
     ])
   })
 })
+
+describe('#getRouteFromPath', () => {
+  const createPages = (paths: Record<string, string>) =>
+    Object.keys(paths).reduce<Pages>((acc, id) => {
+      acc[id] = { path: paths[id] } as Page
+      return acc
+    }, {})
+
+  const pages = createPages({
+    'store.home': '/',
+    'store.product': '/:slug/p',
+    'store.search': '/:term',
+    'store.search#department': '/:department/d',
+    'store.search#category': '/:department/:category',
+    'store.custom#about': '/about-us',
+    'store.custom#landing': '/landing/*rest',
+    'store.custom#file': '/files/:name.pdf',
+    'store.custom#fallback': '/*path',
+  })
+
+  it('should match the route with the highest precedence', () => {
+    expect(getRouteFromPath('/', pages)?.id).toBe('store.home')
+    expect(getRouteFromPath('/about-us', pages)?.id).toBe('store.custom#about')
+    expect(getRouteFromPath('/shirt/p', pages)?.id).toBe('store.product')
+    expect(getRouteFromPath('/shoes/d', pages)?.id).toBe(
+      'store.search#department'
+    )
+    expect(getRouteFromPath('/shoes/sneakers', pages)?.id).toBe(
+      'store.search#category'
+    )
+    expect(getRouteFromPath('/shoes', pages)?.id).toBe('store.search')
+  })
+
+  it('should match splats and templates that are not indexed by segment', () => {
+    expect(getRouteFromPath('/landing', pages)?.id).toBe('store.custom#landing')
+    expect(getRouteFromPath('/landing/a/b', pages)).toEqual({
+      id: 'store.custom#landing',
+      params: { rest: 'a/b' },
+      path: '/landing/a/b',
+    })
+    expect(getRouteFromPath('/files/manual.pdf', pages)?.id).toBe(
+      'store.custom#file'
+    )
+    expect(getRouteFromPath('/a/b/c', pages)?.id).toBe('store.custom#fallback')
+  })
+
+  it('should ignore trailing slashes, hashes and query strings', () => {
+    expect(getRouteFromPath('/shirt/p/', pages)?.id).toBe('store.product')
+    expect(getRouteFromPath('/shirt/p#reviews', pages)?.id).toBe(
+      'store.product'
+    )
+    expect(getRouteFromPath('/shirt/p?skuId=1', pages)?.id).toBe(
+      'store.product'
+    )
+  })
+
+  it('should give precedence to the last declared route on ties', () => {
+    const tiedPages = createPages({ first: '/:a/x', second: '/:b/x' })
+    expect(getRouteFromPath('/foo/x', tiedPages)?.id).toBe('second')
+  })
+
+  it('should return null when no route matches', () => {
+    const strictPages = createPages({ 'store.product': '/:slug/p' })
+    expect(getRouteFromPath('/shirt/q', strictPages)).toBeNull()
+  })
+})
+
+describe('typed params', () => {
+  const pages = {
+    'store.search': { path: '/search/:term' },
+    'store.search#page': {
+      path: '/search/:page',
+      paramTypes: { page: 'int' },
+    },
+  } as any
+
+  it('should decode the params of the matched route', () => {
+    expect(getRouteFromPath('/search/2', pages)).toMatchObject({
+      id: 'store.search#page',
+      params: { page: 2 },
+    })
+  })
+
+  it('should try the next route when params do not fit their types', () => {
+    expect(getRouteFromPath('/search/shoes', pages)).toMatchObject({
+      id: 'store.search',
+      params: { term: 'shoes' },
+    })
+  })
+
+  it('should encode the params when building paths', () => {
+    expect(
+      buildPath('store.search#page', { page: 3 }, undefined, pages)
+    ).toEqual({ path: '/search/3', errors: [] })
+    expect(
+      buildPath('store.search#page', { page: 'three' }, undefined, pages)
+    ).toMatchObject({
+      path: null,
+      errors: [{ code: 'INVALID_PARAM', param: 'page' }],
+    })
+  })
+})
+
+describe('route matching options', () => {
+  const pages = {
+    'store.product': { path: '/:slug/p' },
+    'store.search': { path: '/:term' },
+    'store.custom#sale': { path: '/:campaign', priority: 1 },
+  } as any
+
+  afterEach(() => {
+    setRouteMatchingOptions(pages)
+  })
+
+  it('should give precedence to pages with higher priority', () => {
+    expect(getRouteFromPath('/summer', pages)?.id).toBe('store.custom#sale')
+  })
+
+  it('should match static segments regardless of case when asked to', () => {
+    expect(getRouteFromPath('/Shirt/P', pages)?.id).not.toBe('store.product')
+
+    setRouteMatchingOptions(pages, { caseInsensitive: true })
+
+    expect(getRouteFromPath('/Shirt/P', pages)).toMatchObject({
+      id: 'store.product',
+      params: { slug: 'Shirt' },
+      path: '/Shirt/P',
+    })
+  })
+
+  it('should decode params unless asked not to', () => {
+    expect(getRouteFromPath('/caf%C3%A9/p', pages)?.params).toMatchObject({
+      slug: 'café',
+    })
+    expect(getRouteFromPath('/caf%E0%A4%A/p', pages)?.params).toMatchObject({
+      slug: 'caf%E0%A4%A',
+    })
+
+    setRouteMatchingOptions(pages, { decodeParams: false })
+
+    expect(getRouteFromPath('/caf%C3%A9/p', pages)?.params).toMatchObject({
+      slug: 'caf%C3%A9',
+    })
+  })
+
+  it('should remove trailing slashes when they are redirected', () => {
+    expect(getRouteFromPath('/shirt/p/', pages)?.path).toBe('/shirt/p/')
+
+    setRouteMatchingOptions(pages, { trailingSlash: 'redirect' })
+
+    expect(getRouteFromPath('/shirt/p/', pages)?.path).toBe('/shirt/p')
+  })
+
+  it('should keep the options of each store apart', () => {
+    const otherPages = { ...pages }
+    setRouteMatchingOptions(otherPages, { caseInsensitive: true })
+
+    expect(getRouteFromPath('/Shirt/P', otherPages)?.id).toBe('store.product')
+    expect(getRouteFromPath('/Shirt/P', pages)?.id).not.toBe('store.product')
+  })
+
+  it('should list every template that matches a path', () => {
+    expect(
+      getMatchingRoutes('/summer', pages).map(({ id, template }) => ({
+        id,
+        template,
+      }))
+    ).toEqual([
+      { id: 'store.custom#sale', template: '/:campaign' },
+      { id: 'store.search', template: '/:term' },
+    ])
+  })
+})
+
+describe('#buildPath', () => {
+  const pages = ({
+    'store.product': { path: '/:slug/p' },
+    'store.search': { path: '/:term/s' },
+    'store.custom#list': { path: '/list(/:page)' },
+    'store.custom#canonical': { path: '/:slug/old', canonical: '/:slug/new' },
+    'store.custom#empty': {},
+  } as unknown) as Pages
+
+  it('should build the path with its filters and query', () => {
+    expect(buildPath('store.product', { slug: 'shirt' }, '', pages)).toEqual({
+      path: '/shirt/p',
+      errors: [],
+    })
+    expect(
+      buildPath('store.product', { slug: 'shirt' }, { skuId: '1' }, pages).path
+    ).toBe('/shirt/p?skuId=1')
+    expect(
+      buildPath('store.search', { term: 'shoes', rest: '/red' }, 'o=1', pages)
+        .path
+    ).toBe('/shoes/s/red?o=1')
+  })
+
+  it('should report missing pages', () => {
+    expect(buildPath('store.missing', {}, '', pages)).toEqual({
+      path: null,
+      errors: [
+        {
+          code: 'MISSING_PAGE',
+          page: 'store.missing',
+          message: 'Page store.missing was not found',
+        },
+      ],
+    })
+    expect(buildPath('store.custom#empty', {}, '', pages).errors[0].code).toBe(
+      'MISSING_PAGE'
+    )
+  })
+
+  it('should report missing and unknown params', () => {
+    const { path, errors } = buildPath(
+      'store.product',
+      { color: 'red' },
+      '',
+      pages
+    )
+    expect(path).toBeNull()
+    expect(errors.map(({ code, param }) => [code, param])).toEqual([
+      ['MISSING_PARAM', 'slug'],
+      ['UNKNOWN_PARAM', 'color'],
+    ])
+  })
+
+  it('should not require optional params', () => {
+    expect(buildPath('store.custom#list', {}, '', pages)).toEqual({
+      path: '/list',
+      errors: [],
+    })
+  })
+
+  it('should report canonical paths that do not match the page path', () => {
+    const { path, errors } = buildPath(
+      'store.custom#canonical',
+      { slug: 'shirt' },
+      '',
+      pages
+    )
+    expect(path).toBe('/shirt/new')
+    expect(errors.map(({ code }) => code)).toEqual(['CANONICAL_MISMATCH'])
+  })
+})
+
+describe('#getNavigationRouteToNavigate', () => {
+  const pages = ({
+    'store.product': { path: '/:slug/p' },
+    'store.not-found': { path: '/not-found' },
+  } as unknown) as Pages
+
+  it('should render the not-found page on paths that match no route', () => {
+    expect(
+      getNavigationRouteToNavigate(pages, {
+        to: '/unknown/path',
+        notFoundPage: 'store.not-found',
+      })
+    ).toMatchObject({
+      id: 'store.not-found',
+      params: {},
+      path: '/unknown/path',
+    })
+  })
+
+  it('should leave the path to the server when the not-found page does not exist', () => {
+    expect(
+      getNavigationRouteToNavigate(pages, {
+        to: '/unknown/path',
+        notFoundPage: 'store.missing',
+      })
+    ).toMatchObject({ id: '', params: {}, path: '/unknown/path' })
+  })
+
+  describe('without RENDER_NAVIGATION', () => {
+    beforeEach(() => {
+      window.flags.RENDER_NAVIGATION = false
+    })
+
+    afterEach(() => {
+      window.flags.RENDER_NAVIGATION = true
+    })
+
+    it('should render the not-found page on paths that match no route', () => {
+      expect(
+        getNavigationRouteToNavigate(pages, {
+          to: '/unknown/path',
+          notFoundPage: 'store.not-found',
+        })
+      ).toMatchObject({ id: 'store.not-found', path: '/unknown/path' })
+    })
+
+    it('should not navigate when the not-found page does not exist', () => {
+      expect(
+        getNavigationRouteToNavigate(pages, {
+          to: '/unknown/path',
+          notFoundPage: 'store.missing',
+        })
+      ).toBeNull()
+    })
+  })
+})
+
+describe('#navigate', () => {
+  const pages = ({
+    'store.product': { path: '/:slug/p' },
+    'store.not-found': { path: '/not-found' },
+  } as unknown) as Pages
+  const { location } = window
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    ;(isPrerendered as jest.Mock).mockReturnValue(true)
+    delete window.location
+    window.location = { ...location, assign: jest.fn() }
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    window.location = location
+  })
+
+  const navigateTo = (to: string, isBrowserRouter = true) => {
+    const history = {
+      location: { pathname: '/', search: '', hash: '' },
+      push: jest.fn(),
+      isBrowserRouter,
+    } as any
+    navigate(history, pages, { to, notFoundPage: 'store.not-found' })
+    jest.runAllTimers()
+    return history
+  }
+
+  it('should render prerendered pages of the store client side', () => {
+    const history = navigateTo('/shirt/p')
+
+    expect(history.push).toHaveBeenCalled()
+    expect(window.location.assign).not.toHaveBeenCalled()
+  })
+
+  it('should activate prerendered pages only the server can render', () => {
+    const history = navigateTo('/unknown/path')
+
+    expect(history.push).not.toHaveBeenCalled()
+    expect(window.location.assign).toHaveBeenCalledWith('/unknown/path')
+  })
+
+  it('should keep routers of other URLs on the host page', () => {
+    const history = navigateTo('/unknown/path', false)
+
+    expect(history.push).toHaveBeenCalled()
+    expect(window.location.assign).not.toHaveBeenCalled()
+  })
+})
+
+describe('localized paths', () => {
+  const pages = ({
+    'store.product': {
+      path: '/:slug/p',
+      localizedPaths: {
+        'pt-BR': { path: '/produto/:slug/p' },
+        es: { path: '/producto/:slug/p' },
+      },
+    },
+    'store.custom#about': { path: '/about-us' },
+  } as unknown) as Pages
+
+  it('should match any localized variant of a route', () => {
+    expect(getRouteFromPath('/produto/shirt/p', pages)).toMatchObject({
+      id: 'store.product',
+      params: { slug: 'shirt' },
+      path: '/produto/shirt/p',
+    })
+    expect(getRouteFromPath('/producto/shirt/p', pages)?.id).toBe(
+      'store.product'
+    )
+    expect(getRouteFromPath('/shirt/p', pages)?.id).toBe('store.product')
+  })
+
+  it('should build the path for the given locale or its language', () => {
+    const params = { slug: 'shirt' }
+    expect(buildPath('store.product', params, '', pages, 'pt-BR').path).toBe(
+      '/produto/shirt/p'
+    )
+    expect(buildPath('store.product', params, '', pages, 'es-AR').path).toBe(
+      '/producto/shirt/p'
+    )
+    expect(buildPath('store.product', params, '', pages, 'en-US').path).toBe(
+      '/shirt/p'
+    )
+  })
+
+  it('should list the alternate paths of a route', () => {
+    expect(
+      getAlternatePaths('store.product', { slug: 'shirt' }, pages, [
+        'en-US',
+        'pt-BR',
+      ])
+    ).toEqual([
+      { locale: 'en-US', path: '/shirt/p' },
+      { locale: 'pt-BR', path: '/produto/shirt/p' },
+    ])
+  })
+})
+
+describe('#matchRoute', () => {
+  const pages = ({
+    'store.home': { path: '/' },
+    'store.product': { path: '/:slug/p' },
+    'store.custom#account': { path: '/account' },
+    'store.custom#orders': { path: '/account/orders' },
+    'store.custom#accountant': { path: '/accountant' },
+  } as unknown) as Pages
+
+  const route = {
+    id: 'store.custom#orders',
+    path: '/account/orders?page=2',
+    params: {},
+  }
+
+  it('should match paths exactly or by prefix', () => {
+    expect(matchRoute('/account/orders', route, pages)).toEqual({
+      isExact: true,
+      params: {},
+    })
+    expect(matchRoute('/account', route, pages)?.isExact).toBe(false)
+    expect(matchRoute('/account', route, pages, { exact: true })).toBeNull()
+    expect(matchRoute('/acc', route, pages)).toBeNull()
+  })
+
+  it('should match paths as the page they are routed to', () => {
+    const productRoute = {
+      id: 'store.product',
+      path: '/shirt/p',
+      params: { slug: 'shirt' },
+    }
+    expect(matchRoute('/shirt/p/', productRoute, pages)?.isExact).toBe(true)
+    expect(matchRoute('/pants/p', productRoute, pages)).toBeNull()
+  })
+
+  it('should only match whole segments by prefix', () => {
+    const accountantRoute = {
+      id: 'store.custom#accountant',
+      path: '/accountant',
+      params: {},
+    }
+    expect(
+      matchRoute('store.custom#account', accountantRoute, pages)
+    ).toBeNull()
+    expect(matchRoute('/account', accountantRoute, pages)).toBeNull()
+  })
+
+  it('should only match the home page exactly', () => {
+    expect(matchRoute('/', route, pages)).toBeNull()
+    expect(matchRoute('store.home', route, pages)).toBeNull()
+    expect(
+      matchRoute('/', { id: 'store.home', path: '/', params: {} }, pages)
+        ?.isExact
+    ).toBe(true)
+  })
+
+  it('should match pages with the router templates', () => {
+    expect(matchRoute('store.custom#orders', route, pages)?.isExact).toBe(true)
+    expect(matchRoute('store.custom#account', route, pages)?.isExact).toBe(
+      false
+    )
+    expect(
+      matchRoute('store.custom#account', route, pages, { exact: true })
+    ).toBeNull()
+    expect(matchRoute('store.product', route, pages)).toBeNull()
+  })
+
+  it('should compare the params of the current route', () => {
+    const productRoute = {
+      id: 'store.product',
+      path: '/shirt/p',
+      params: { slug: 'shirt' },
+    }
+    expect(
+      matchRoute('store.product', productRoute, pages, {
+        params: { slug: 'shirt' },
+      })
+    ).not.toBeNull()
+    expect(
+      matchRoute('store.product', productRoute, pages, {
+        params: { slug: 'pants' },
+      })
+    ).toBeNull()
+  })
+
+  it('should ignore the root path', () => {
+    expect(
+      matchRoute(
+        '/account',
+        { ...route, id: 'store.custom#account', path: '/en/account' },
+        pages,
+        { rootPath: '/en' }
+      )?.isExact
+    ).toBe(true)
+  })
+})
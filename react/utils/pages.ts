@@ -1,10 +1,22 @@
 import { canUseDOM } from 'exenv'
-import { History, LocationDescriptorObject } from 'history'
+import { Location, LocationDescriptorObject } from 'history'
 import queryString from 'query-string'
-import { difference, is, isEmpty, keys, startsWith } from 'ramda'
-import RouteParser from 'route-parser'
+import { is, startsWith } from 'ramda'
 
 import { isEnabled } from './flags'
+import {
+  foldCase,
+  getRouteParser,
+  matchTemplate,
+  RouteIndex,
+  RouteIndexEntry,
+  RouteMatchingOptions,
+} from './routeIndex'
+import { PersistingQueries } from './persistingQueries'
+import { decodeParams, encodeParams } from './routeParams'
+import { ScrollRestoration } from './scrollRestoration'
+import { isPrerendered } from './speculation'
+import { isBrowserRouterAdapter, RouterAdapter } from './routerAdapter'
 
 const EMPTY_OBJECT = (Object.freeze && Object.freeze({})) || {}
 
@@ -38,12 +50,38 @@ function trimEndingSlash(token: string) {
   return token.replace(/\/$/, '') || '/'
 }
 
+// Options are kept by pages, so each provider, e.g. each store rendered on
+// the same server, matches paths with its own
+const matchingOptionsByPages = new WeakMap<Pages, RouteMatchingOptions>()
+const routeIndexes = new WeakMap<Pages, RouteIndex>()
+
+/** Sets how paths are matched against the page templates of the store */
+export function setRouteMatchingOptions(
+  pages: Pages,
+  options: RouteMatchingOptions = {}
+) {
+  matchingOptionsByPages.set(pages, options)
+  routeIndexes.delete(pages)
+}
+
+const getMatchingOptions = (pages: Pages) =>
+  matchingOptionsByPages.get(pages) ?? {}
+
+/** Returns the pathname the URL should have, which differs from the given
+ * one when trailing slashes are redirected */
+export function getRedirectedPathname(pathname: string, pages: Pages) {
+  return getMatchingOptions(pages).trailingSlash === 'redirect'
+    ? trimEndingSlash(pathname)
+    : pathname
+}
+
 function createLocationDescriptor(
   navigationRoute: NavigationRoute,
   {
     hash,
     query,
     scrollOptions,
+    scrollRestoration,
     fetchPage,
     preventRemount,
     skipSetPath,
@@ -56,6 +94,7 @@ function createLocationDescriptor(
       preventRemount,
       renderRouting: true,
       scrollOptions,
+      scrollRestoration,
     },
     ...(skipSetPath ? {} : { pathname: navigationRoute.path }),
     ...(query && { search: query }),
@@ -73,33 +112,132 @@ function adjustPath(path: string) {
   return trimEndingSlash(pathname)
 }
 
-function getValidTemplate(page: string, pages: Pages) {
-  const pageDescriptor = pages[page]
+const SPECIAL_PARAMS = ['rest', 'terms']
+const TEMPLATE_PARAM = /[:*]\w+/g
 
-  if (!pageDescriptor) {
-    console.error(`Page ${page} was not found`)
-    return null
+function getTemplateParams(template: string) {
+  // Params inside optional groups, such as the last splat, are not required
+  let requiredPart = adjustTemplate(template)
+  let previousPart
+  do {
+    previousPart = requiredPart
+    requiredPart = requiredPart.replace(/\([^()]*\)/g, '')
+  } while (requiredPart !== previousPart)
+
+  const getNames = (part: string) =>
+    (part.match(TEMPLATE_PARAM) || []).map((token) => token.slice(1))
+
+  return { all: getNames(template), required: getNames(requiredPart) }
+}
+
+/** Builds the path of a page, reporting every problem found on the way
+ * instead of just giving up. The path is still built whenever possible, so
+ * callers can decide how strict they want to be. */
+export function buildPath(
+  page: string,
+  params: Record<string, any> | null | undefined,
+  query: string | Record<string, any> | undefined,
+  /** The pages of the runtime, e.g. `useRuntime().pages`, which include the
+   * ones loaded on later navigations */
+  pages: Pages,
+  locale?: string
+): BuildPathResult {
+  const pageDescriptor = pages[page] && getLocalizedPage(pages[page], locale)
+  if (!pageDescriptor || !pageDescriptor.path) {
+    return {
+      path: null,
+      errors: [
+        {
+          code: 'MISSING_PAGE',
+          page,
+          message: pageDescriptor
+            ? `Page ${page} has no path`
+            : `Page ${page} was not found`,
+        },
+      ],
+    }
   }
 
-  const { path: template, canonical } = pageDescriptor
-  if (!template) {
-    console.error(`Page ${page} has no path`)
-    return null
+  const { path: pagePath, canonical, paramTypes } = pageDescriptor
+  const template = canonical || pagePath
+  const encoded = encodeParams(params ?? {}, paramTypes)
+  const pageParams = encoded.params
+  const templateParams = getTemplateParams(template)
+  const errors: BuildPathError[] = encoded.invalid.map((name) => ({
+    code: 'INVALID_PARAM' as const,
+    page,
+    param: name,
+    message: `The param '${name}' of page ${page} does not fit its type`,
+  }))
+
+  templateParams.required
+    .filter((name) => pageParams[name] == null || pageParams[name] === '')
+    .forEach((name) =>
+      errors.push({
+        code: 'MISSING_PARAM',
+        page,
+        param: name,
+        message: `Page ${page} requires the param '${name}'`,
+      })
+    )
+
+  Object.keys(pageParams)
+    .filter(
+      (name) =>
+        !templateParams.all.includes(name) && !SPECIAL_PARAMS.includes(name)
+    )
+    .forEach((name) =>
+      errors.push({
+        code: 'UNKNOWN_PARAM',
+        page,
+        param: name,
+        message: `Page ${page} has no param '${name}'`,
+      })
+    )
+
+  const reversedPath = getRouteParser(adjustTemplate(template)).reverse(
+    pageParams
+  )
+  if (!reversedPath || encoded.invalid.length > 0) {
+    return { path: null, errors }
   }
 
-  return adjustTemplate(canonical || template)
-}
+  if (
+    canonical &&
+    !getParams(pagePath, reversedPath, getMatchingOptions(pages))
+  ) {
+    errors.push({
+      code: 'CANONICAL_MISMATCH',
+      page,
+      message: `The canonical path '${reversedPath}' of page ${page} does not match its path '${pagePath}'`,
+    })
+  }
 
-export function pathFromPageName(page: string, pages: Pages, params: any) {
-  const validTemplate = getValidTemplate(page, pages)
-  if (!validTemplate) {
-    return null
+  const filters =
+    pageParams.rest || (pageParams.terms && `/${pageParams.terms}`) || ''
+  const search = typeof query === 'string' ? query : mapToQueryString(query)
+
+  return {
+    path: `${reversedPath}${filters}${search ? `?${search}` : ''}`,
+    errors,
   }
-  const path = new RouteParser(validTemplate).reverse(params)
-  const filters = params
-    ? params.rest || (params.terms && `/${params.terms}`) || ''
-    : ''
-  return path ? `${path}${filters}` : null
+}
+
+function logBuildPathErrors(errors: BuildPathError[]) {
+  errors.forEach(({ code, message }) =>
+    code === 'MISSING_PAGE' ? console.error(message) : console.warn(message)
+  )
+}
+
+export function pathFromPageName(
+  page: string,
+  pages: Pages,
+  params: any,
+  locale?: string
+) {
+  const { path, errors } = buildPath(page, params, undefined, pages, locale)
+  logBuildPathErrors(errors.filter(({ code }) => code === 'MISSING_PAGE'))
+  return path
 }
 
 export function queryStringToMap(query: string): Record<string, any> {
@@ -113,18 +251,51 @@ export function mapToQueryString(query: Record<string, any> = {}): string {
   return queryString.stringify(query, { encode: false })
 }
 
-export function getPageParams(path: string, routePath: string) {
+export function getPageParams(
+  path: string,
+  routePath: string,
+  options: RouteMatchingOptions = {}
+) {
   const pagePathWithRest =
     routePath && /\*\w+$/.test(routePath)
       ? routePath
       : routePath.replace(/\/?$/, '*_rest')
-  return (routePath && getParams(pagePathWithRest, path)) || EMPTY_OBJECT
+  const target = options.caseInsensitive
+    ? foldCase(path, trimEndingSlash(routePath))
+    : path
+  return (
+    (routePath && getParams(pagePathWithRest, target, options)) || EMPTY_OBJECT
+  )
 }
 
-function getParams(template: string, target: string) {
+function getParams(
+  template: string,
+  target: string,
+  options: RouteMatchingOptions
+) {
   const properTemplate = adjustTemplate(template)
   const properTarget = adjustPath(target)
-  return new RouteParser(properTemplate).match(properTarget)
+  return matchTemplate(
+    properTemplate,
+    properTarget,
+    options.decodeParams !== false
+  )
+}
+
+/** Returns the page with the path templates of the given locale, or of its
+ * language, when it has any. E.g. `pt-BR` falls back to `pt`. */
+export function getLocalizedPage(page: Page, locale?: string): Page {
+  const { localizedPaths } = page
+  if (!locale || !localizedPaths) {
+    return page
+  }
+
+  const [language] = locale.split('-')
+  const localized = localizedPaths[locale] ?? localizedPaths[language]
+
+  return localized
+    ? { ...page, path: localized.path, canonical: localized.canonical }
+    : page
 }
 
 function getPagePath(name: string, pages: Pages) {
@@ -132,25 +303,14 @@ function getPagePath(name: string, pages: Pages) {
   return cname && isHost(cname) ? '/' : pagePath
 }
 
-function checkValidParams(id: string, pages: Pages, path: string, params: any) {
-  const template = getValidTemplate(id, pages) || ''
-  const validParams = getParams(template, path) as Record<string, any>
-  const invalidParams = difference(keys(params), keys(validParams))
-
-  if (!isEmpty(invalidParams)) {
-    console.warn(
-      `The following params are invalid: ${invalidParams.join(', ')}`
-    )
-  }
-}
-
 function getRouteFromPageName(
   id: string,
   pages: Pages,
-  params: any
+  params: any,
+  locale?: string
 ): NavigationRoute | null {
-  const path = pathFromPageName(id, pages, params) || ''
-  checkValidParams(id, pages, path, params)
+  const { path, errors } = buildPath(id, params, undefined, pages, locale)
+  logBuildPathErrors(errors)
 
   return path ? { id, path, params } : null
 }
@@ -160,7 +320,7 @@ function getCanonicalPath(
   params: Record<string, string>
 ): string | false {
   const properPathTemplate = adjustTemplate(canonicalPathTemplate)
-  const canonicalPath = new RouteParser(properPathTemplate).reverse(params)
+  const canonicalPath = getRouteParser(properPathTemplate).reverse(params)
   if (canonicalPath) {
     return canonicalPath
   }
@@ -171,6 +331,32 @@ function getCanonicalPath(
   return false
 }
 
+/** Decodes the params matched from a path into the types declared by the
+ * page. Params that can't be decoded are kept as strings. */
+export function getTypedParams(
+  page: string,
+  params: Record<string, any>,
+  pages: Pages
+) {
+  return decodeParams(params, pages[page]?.paramTypes) ?? params
+}
+
+export function getTypedRoute<T extends Pick<Route, 'id' | 'params'>>(
+  route: T,
+  pages: Pages
+): T {
+  return { ...route, params: getTypedParams(route.id, route.params, pages) }
+}
+
+/** The server still expects the params as strings */
+export function getParamsJSON(
+  page: string,
+  params: Record<string, any> = {},
+  pages: Pages
+) {
+  return JSON.stringify(encodeParams(params, pages[page]?.paramTypes).params)
+}
+
 export function getRouteFromPath(
   path: string,
   pages: Pages
@@ -180,14 +366,14 @@ export function getRouteFromPath(
     return null
   }
 
-  const params = getPageParams(path, routeMatch.path)
+  const params = getPageParams(path, routeMatch.path, getMatchingOptions(pages))
   const navigationPath = routeMatch.canonical
     ? getCanonicalPath(routeMatch.canonical, params) || path
-    : path
+    : getRedirectedPathname(path, pages)
 
   return {
     id: routeMatch.id,
-    params,
+    params: getTypedParams(routeMatch.id, params, pages),
     path: navigationPath,
   }
 }
@@ -204,30 +390,179 @@ export function getRouteFromPathOld(
     return null
   }
 
-  const params = getPageParams(path, routeMatch.path)
+  const params = getPageParams(path, routeMatch.path, getMatchingOptions(pages))
   const navigationPath = routeMatch.canonical
     ? getCanonicalPath(routeMatch.canonical, params) || path
     : path
 
   return {
     id: routeMatch.id,
-    params,
+    params: getTypedParams(routeMatch.id, params, pages),
     path: navigationPath,
   }
 }
 
-const mergePersistingQueries = (currentQuery: string, query: string) => {
-  const KEYS = ['disableUserLand', '__bindingAddress']
-  const current = queryStringToMap(currentQuery)
-  const next = queryStringToMap(query)
-  const has = (value?: string) => !!value || value === null
-  const persisting = KEYS.reduce<Record<string, any>>((cur, key) => {
-    if (has(current[key]) && current[key] !== 'false') {
-      cur[key] = current[key]
+/** Keeps the path that matched no route, so the URL doesn't change, but
+ * renders the not-found page instead */
+function getNotFoundRoute(
+  path: string,
+  pages: Pages,
+  notFoundPage?: string
+): NavigationRoute | null {
+  return notFoundPage && pages[notFoundPage]
+    ? { id: notFoundPage, params: {}, path }
+    : null
+}
+
+export interface RouteMatchOptions {
+  /** Only match the exact page or path, instead of any path under it */
+  exact?: boolean
+  /** Params the current route must have, when matching a page */
+  params?: Record<string, any>
+  locale?: string
+  rootPath?: string
+}
+
+export interface RouteMatchResult {
+  isExact: boolean
+  params: Record<string, any>
+}
+
+const getMatchablePath = (path: string, rootPath = '') => {
+  const [pathname] = path.split(/[?#]/)
+  const relativePath =
+    rootPath && pathname.startsWith(`${rootPath}/`)
+      ? pathname.slice(rootPath.length)
+      : pathname
+  return trimEndingSlash(relativePath)
+}
+
+const hasParams = (
+  params: Record<string, any>,
+  expected: Record<string, any> = {}
+) =>
+  Object.keys(expected).every((key) => `${params[key]}` === `${expected[key]}`)
+
+const matchPage = (
+  page: string,
+  route: Pick<Route, 'id' | 'params'>,
+  currentPath: string,
+  pages: Pages,
+  { exact, params, locale }: RouteMatchOptions
+): RouteMatchResult | null => {
+  if (route.id === page && hasParams(route.params, params)) {
+    return { isExact: true, params: route.params }
+  }
+
+  const pageDeclaration = pages[page]
+  if (exact || !pageDeclaration || !pageDeclaration.path) {
+    return null
+  }
+
+  const { path: template } = getLocalizedPage(pageDeclaration, locale)
+  // Every path is under the home page, which would always be active
+  if (trimEndingSlash(template) === '/') {
+    return null
+  }
+
+  const matchedParams = getPageParams(
+    currentPath,
+    template,
+    getMatchingOptions(pages)
+  )
+  if (matchedParams === EMPTY_OBJECT) {
+    return null
+  }
+
+  // The rest of the path must start a new segment, so e.g. `/account`
+  // doesn't match `/accountant`
+  const { _rest, ...pageParams } = matchedParams as Record<string, any>
+  if (_rest && !_rest.startsWith('/')) {
+    return null
+  }
+
+  return hasParams(pageParams, params)
+    ? { isExact: false, params: pageParams }
+    : null
+}
+
+/** Tells whether the current route is the given page or path or, unless
+ * `exact` is set, is under it. Pages are matched with the same templates the
+ * router uses, so e.g. `store.search` also matches `/shoes/sneakers` when its
+ * path is `/:term`. Paths are matched as the page they are routed to. */
+export function matchRoute(
+  pageOrPath: string,
+  route: Pick<Route, 'id' | 'path' | 'params'>,
+  pages: Pages,
+  { exact = false, params, locale, rootPath }: RouteMatchOptions = {}
+): RouteMatchResult | null {
+  const currentPath = getMatchablePath(route.path, rootPath)
+
+  if (!pageOrPath.startsWith('/')) {
+    return matchPage(pageOrPath, route, currentPath, pages, {
+      exact,
+      params,
+      locale,
+    })
+  }
+
+  const targetPath = getMatchablePath(pageOrPath, rootPath)
+  const targetRoute = getRouteFromPath(targetPath, pages)
+  if (targetRoute) {
+    const { _rest, ...targetParams } = targetRoute.params
+    return matchPage(targetRoute.id, route, currentPath, pages, {
+      exact,
+      params: targetParams,
+      locale,
+    })
+  }
+
+  // Paths of no page are only compared as they are
+  const isExact = targetPath === currentPath
+  const isPrefix = currentPath.startsWith(`${targetPath}/`)
+
+  return isExact || (!exact && isPrefix)
+    ? { isExact, params: route.params }
+    : null
+}
+
+export interface AlternatePath {
+  locale: string
+  path: string
+}
+
+/** Builds the path of a route on every locale, e.g. for locale switchers.
+ * Locales on which the path can't be built are left out. */
+export function getAlternatePaths(
+  page: string,
+  params: Record<string, any>,
+  pages: Pages,
+  locales: string[]
+): AlternatePath[] {
+  return locales.reduce((acc, locale) => {
+    const { path } = buildPath(page, params, undefined, pages, locale)
+    if (path) {
+      acc.push({ locale, path })
     }
-    return cur
-  }, {})
-  return mapToQueryString({ ...persisting, ...next })
+    return acc
+  }, [] as AlternatePath[])
+}
+
+const mergePersistingQueries = (
+  currentLocation: Location,
+  navigationRoute: NavigationRoute & { query: string },
+  persistingQueries = new PersistingQueries()
+) => {
+  const currentRoute: NavigationRoute | undefined =
+    currentLocation.state?.navigationRoute
+
+  return mapToQueryString(
+    persistingQueries.merge(
+      queryStringToMap(currentLocation.search),
+      queryStringToMap(navigationRoute.query),
+      currentRoute?.id === navigationRoute.id
+    )
+  )
 }
 
 export function getNavigationRouteToNavigate(
@@ -243,6 +578,8 @@ export function getNavigationRouteToNavigate(
     rootPath,
     modifiers,
     modifiersOptions,
+    notFoundPage,
+    locale,
   } = options
 
   if (!page && !inputTo) {
@@ -278,13 +615,19 @@ export function getNavigationRouteToNavigate(
 
   if (isEnabled('RENDER_NAVIGATION')) {
     const fallbackPage = { path: to, params: {}, id: '' }
-    const routeFromPage = page && getRouteFromPageName(page, pages, params)
+    const routeFromPage =
+      page && getRouteFromPageName(page, pages, params, locale)
     const routeFromPath = getRouteFromPath(to, pages)
-    navigationRoute = routeFromPage || routeFromPath || fallbackPage
+    navigationRoute =
+      routeFromPage ||
+      routeFromPath ||
+      (!page && getNotFoundRoute(to, pages, notFoundPage)) ||
+      fallbackPage
   } else {
     navigationRoute = page
-      ? getRouteFromPageName(page, pages, params)
-      : getRouteFromPathOld(to, pages, query, realHash)
+      ? getRouteFromPageName(page, pages, params, locale)
+      : getRouteFromPathOld(to, pages, query, realHash) ||
+        getNotFoundRoute(to, pages, notFoundPage)
   }
 
   if (!navigationRoute) {
@@ -314,13 +657,35 @@ export function getNavigationRouteToNavigate(
   return navigationRoute
 }
 
+/** Pages declared on the store are rendered client side, while unknown
+ * paths are left to the server, which may still know them */
+const isClientSideRoute = (
+  navigationRoute: NavigationRoute,
+  pages: Pages,
+  notFoundPage?: string
+) =>
+  !!navigationRoute.id &&
+  !!pages[navigationRoute.id] &&
+  navigationRoute.id !== notFoundPage
+
+/** Tells whether the target of the navigation is rendered client side */
+export const rendersClientSide = (pages: Pages, options: NavigateOptions) => {
+  const navigationRoute = getNavigationRouteToNavigate(pages, options)
+  return (
+    !!navigationRoute &&
+    !navigationRoute.hash &&
+    isClientSideRoute(navigationRoute, pages, options.notFoundPage)
+  )
+}
+
 export function navigate(
-  history: History | null,
+  history: RouterAdapter | null,
   pages: Pages,
   options: NavigateOptions
 ) {
   const {
     scrollOptions,
+    scrollRestoration,
     fallbackToWindowLocation = false,
     replace,
     fetchPage = true,
@@ -351,14 +716,32 @@ export function navigate(
 
   if (history) {
     const nextQuery = mergePersistingQueries(
-      history.location.search,
-      navigationRoute.query
+      history.location,
+      navigationRoute,
+      options.persistingQueries
     )
+    const url = `${navigationRoute.path}${nextQuery ? `?${nextQuery}` : ''}`
+    if (
+      fetchPage &&
+      !skipSetPath &&
+      !navigationRoute.realHash &&
+      isBrowserRouterAdapter(history) &&
+      !isClientSideRoute(navigationRoute, pages, options.notFoundPage) &&
+      isPrerendered(url)
+    ) {
+      // Only the server can render the target, so it is loaded as a full page
+      // anyway, and activating its prerender makes that instant
+      if (showPageLoading) showPageLoading()
+      window.location[replace ? 'replace' : 'assign'](url)
+      return true
+    }
+
     const location = createLocationDescriptor(navigationRoute, {
       fetchPage,
       preventRemount,
       query: nextQuery,
       scrollOptions,
+      scrollRestoration,
       hash: navigationRoute.realHash,
       skipSetPath,
     })
@@ -383,7 +766,7 @@ function navigationRootPath(path: string, rootPath?: string) {
   return path
 }
 
-export function goBack(history: History | null) {
+export function goBack(history: RouterAdapter | null) {
   if (history) {
     window.setTimeout(() => history.goBack(), 0)
     return true
@@ -457,38 +840,62 @@ function routeMatchForMappedURL(
   }
 }
 
-function routeMatchFromPath(path: string, routes: Pages): RouteMatch | null {
-  let id: string | undefined
-  let pathPrecedence: string
-  let chosenPathPrecedence: string | null = null
+function getRouteIndex(routes: Pages) {
+  let routeIndex = routeIndexes.get(routes)
+  if (routeIndex) {
+    return routeIndex
+  }
 
-  for (const name in routes) {
+  const createEntry = (id: string, path: string, locale?: string) => ({
+    id,
+    path: trimEndingSlash(path),
+    template: adjustTemplate(path),
+    priority: routes[id].priority ?? 0,
+    precedence: getComparablePrecedence(path),
+    locale,
+    paramTypes: routes[id].paramTypes,
+  })
+
+  const entries = Object.keys(routes).reduce((acc, name) => {
     const pagePath = getPagePath(name, routes)
-    if (!pagePath) {
-      continue
+    if (pagePath) {
+      acc.push(createEntry(name, pagePath))
     }
 
-    const matches = !!getParams(pagePath, path)
-    if (!matches) {
-      continue
-    }
+    const { localizedPaths = {} } = routes[name]
+    Object.keys(localizedPaths).forEach((locale) => {
+      acc.push(createEntry(name, localizedPaths[locale].path, locale))
+    })
+    return acc
+  }, [] as RouteIndexEntry[])
 
-    pathPrecedence = getComparablePrecedence(pagePath)
-    if (
-      chosenPathPrecedence !== null &&
-      chosenPathPrecedence < pathPrecedence
-    ) {
-      continue
-    }
+  routeIndex = new RouteIndex(entries, getMatchingOptions(routes))
+  routeIndexes.set(routes, routeIndex)
+  return routeIndex
+}
 
-    chosenPathPrecedence = pathPrecedence
-    id = name
-  }
+/** Lists every page template that matches the path, in the order the router
+ * tries them, so the first one is the page the path leads to. Meant for
+ * debugging ambiguous routes. */
+export function getMatchingRoutes(path: string, pages: Pages) {
+  return getRouteIndex(pages).matchAll(adjustPath(path))
+}
 
-  if (!id) {
+function routeMatchFromPath(path: string, routes: Pages): RouteMatch | null {
+  const match = getRouteIndex(routes).match(adjustPath(path))
+  if (!match) {
     return null
   }
 
+  const { id, locale } = match
+  if (locale) {
+    const { path: localizedPath, canonical } = getLocalizedPage(
+      routes[id],
+      locale
+    )
+    return { canonical, id, path: localizedPath }
+  }
+
   return {
     canonical: routes[id].canonical,
     id,
@@ -517,6 +924,25 @@ function routeIdFromPathAndQueryOld(
   return routeMatch
 }
 
+export type BuildPathErrorCode =
+  | 'MISSING_PAGE'
+  | 'MISSING_PARAM'
+  | 'INVALID_PARAM'
+  | 'UNKNOWN_PARAM'
+  | 'CANONICAL_MISMATCH'
+
+export interface BuildPathError {
+  code: BuildPathErrorCode
+  message: string
+  page: string
+  param?: string
+}
+
+export interface BuildPathResult {
+  path: string | null
+  errors: BuildPathError[]
+}
+
 interface RouteMatch {
   canonical?: string
   id: string
@@ -530,6 +956,7 @@ export interface NavigateOptions {
   query?: any
   to?: string
   scrollOptions?: RenderScrollOptions
+  scrollRestoration?: ScrollRestoration
   fallbackToWindowLocation?: boolean
   replace?: boolean
   fetchPage?: boolean
@@ -539,6 +966,12 @@ export interface NavigateOptions {
   modifiersOptions?: Record<string, any>
   skipSetPath?: boolean
   showPageLoading?: () => void
+  /** Page rendered when `to` matches no route */
+  notFoundPage?: string
+  /** Locale whose path templates are used to build the path of `page` */
+  locale?: string
+  /** Query keys carried over from the current URL */
+  persistingQueries?: PersistingQueries
 }
 
 export interface NavigationRouteChange {
@@ -0,0 +1,70 @@
+import { PersistingQueries } from './persistingQueries'
+
+afterEach(() => {
+  window.sessionStorage.clear()
+})
+
+describe('PersistingQueries', () => {
+  it('should keep the default keys unless they are false', () => {
+    const persistingQueries = new PersistingQueries()
+
+    expect(
+      persistingQueries.merge(
+        {
+          disableUserLand: null,
+          __bindingAddress: 'false',
+          workspace: 'beta',
+          q: 'shirt',
+        },
+        { page: '2' },
+        false
+      )
+    ).toEqual({ disableUserLand: null, workspace: 'beta', page: '2' })
+  })
+
+  it('should let the next query win', () => {
+    const persistingQueries = new PersistingQueries([{ key: 'sc' }])
+
+    expect(persistingQueries.merge({ sc: '1' }, { sc: '2' }, false)).toEqual({
+      sc: '2',
+    })
+  })
+
+  it('should keep same-route keys only on the same route', () => {
+    const persistingQueries = new PersistingQueries()
+    persistingQueries.add('order', 'same-route')
+
+    expect(persistingQueries.merge({ order: 'price' }, {}, true)).toEqual({
+      order: 'price',
+    })
+    expect(persistingQueries.merge({ order: 'price' }, {}, false)).toEqual({})
+  })
+
+  it('should keep until-cleared keys until they are set to empty', () => {
+    const persistingQueries = new PersistingQueries([
+      { key: 'utm_source', rule: 'until-cleared' },
+    ])
+
+    persistingQueries.merge({ utm_source: 'mail' }, {}, false)
+    expect(persistingQueries.merge({}, {}, false)).toEqual({
+      utm_source: 'mail',
+    })
+    expect(
+      new PersistingQueries([
+        { key: 'utm_source', rule: 'until-cleared' },
+      ]).merge({}, {}, false)
+    ).toEqual({ utm_source: 'mail' })
+
+    expect(persistingQueries.merge({}, { utm_source: '' }, false)).toEqual({})
+    expect(persistingQueries.merge({}, {}, false)).toEqual({})
+  })
+
+  it('should stop persisting removed keys', () => {
+    const persistingQueries = new PersistingQueries()
+    const remove = persistingQueries.add('sc')
+
+    remove()
+
+    expect(persistingQueries.merge({ sc: '1' }, {}, false)).toEqual({})
+  })
+})
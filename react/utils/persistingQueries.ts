@@ -0,0 +1,106 @@
+import { dissoc } from 'ramda'
+
+import { readSessionStorage, writeSessionStorage } from './sessionStorage'
+
+/** - `always`: kept while it is in the current URL
+ * - `same-route`: kept only on navigations to the current route
+ * - `until-cleared`: kept even on navigations that don't carry it, including
+ * full page loads in the same tab, until a navigation sets it to an empty
+ * value */
+export type PersistingQueryRule = 'always' | 'same-route' | 'until-cleared'
+
+export interface PersistingQueryKey {
+  key: string
+  rule?: PersistingQueryRule
+}
+
+type Query = Record<string, any>
+
+const STORAGE_KEY = '__renderPersistingQueries'
+
+const DEFAULT_KEYS: PersistingQueryKey[] = [
+  { key: 'disableUserLand' },
+  { key: '__bindingAddress' },
+  { key: 'workspace' },
+]
+
+// Keys without a value, e.g. `?disableUserLand`, are parsed as null
+const isSet = (value: any) => (!!value || value === null) && value !== 'false'
+
+/** Query keys that are carried over from the current URL to the next one on
+ * navigations, each with the rule that says when. */
+export class PersistingQueries {
+  private rules = new Map<string, PersistingQueryRule>()
+  private stored: Query = readSessionStorage(STORAGE_KEY, {})
+
+  public constructor(keys: PersistingQueryKey[] = []) {
+    DEFAULT_KEYS.concat(keys).forEach(({ key, rule }) => this.add(key, rule))
+  }
+
+  /** Returns a function that stops persisting the key */
+  public add(key: string, rule: PersistingQueryRule = 'always') {
+    this.rules.set(key, rule)
+
+    return () => {
+      if (this.rules.get(key) === rule) {
+        this.rules.delete(key)
+        this.setStored(key, undefined)
+      }
+    }
+  }
+
+  /** Values set on the next query always win over the persisted ones */
+  public merge(current: Query, next: Query, isSameRoute: boolean): Query {
+    const merged = { ...next }
+
+    this.rules.forEach((rule, key) => {
+      if (rule === 'until-cleared') {
+        this.mergeUntilCleared(key, current, merged)
+        return
+      }
+
+      if (
+        key in next ||
+        !isSet(current[key]) ||
+        (rule === 'same-route' && !isSameRoute)
+      ) {
+        return
+      }
+
+      merged[key] = current[key]
+    })
+
+    return merged
+  }
+
+  private mergeUntilCleared(key: string, current: Query, merged: Query) {
+    if (key in merged) {
+      if (merged[key] === '') {
+        delete merged[key]
+        this.setStored(key, undefined)
+      } else {
+        this.setStored(key, merged[key])
+      }
+      return
+    }
+
+    const value = isSet(current[key]) ? current[key] : this.stored[key]
+    if (value !== undefined) {
+      merged[key] = value
+      this.setStored(key, value)
+    }
+  }
+
+  private setStored(key: string, value: any) {
+    if (this.stored[key] === value) {
+      return
+    }
+
+    this.stored =
+      value === undefined
+        ? dissoc(key, this.stored)
+        : { ...this.stored, [key]: value }
+
+    writeSessionStorage(STORAGE_KEY, this.stored)
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  decidePrefetchPolicy,
+  getPrefetchPolicy,
+  setPrefetchPolicySettings,
+  watchPrefetchPolicy,
+} from './prefetchPolicy'
+
+describe('#decidePrefetchPolicy', () => {
+  it('should prefetch everything on fast networks', () => {
+    expect(
+      decidePrefetchPolicy({ effectiveType: '4g', rtt: 50, deviceMemory: 8 })
+    ).toMatchObject({
+      tier: 'high',
+      enabled: true,
+      concurrency: 5,
+      caches: ['paths', 'routes', 'assets'],
+    })
+  })
+
+  it('should not prefetch when the user asks to save data', () => {
+    expect(
+      decidePrefetchPolicy({ effectiveType: '4g', saveData: true })
+    ).toMatchObject({ tier: 'off', enabled: false })
+    expect(decidePrefetchPolicy({ effectiveType: '2g' }).enabled).toBe(false)
+  })
+
+  it('should prefetch less on slow networks and constrained devices', () => {
+    expect(decidePrefetchPolicy({ effectiveType: '3g' })).toMatchObject({
+      tier: 'low',
+      concurrency: 1,
+      caches: ['paths', 'routes'],
+    })
+    expect(decidePrefetchPolicy({ deviceMemory: 2 }).tier).toBe('medium')
+    expect(
+      decidePrefetchPolicy({ batteryLevel: 0.1, charging: false }).tier
+    ).toBe('low')
+    expect(
+      decidePrefetchPolicy({ batteryLevel: 0.1, charging: true }).tier
+    ).toBe('high')
+  })
+
+  it('should let stores force a tier and override its options', () => {
+    expect(
+      decidePrefetchPolicy(
+        { saveData: true },
+        { tier: 'medium', tiers: { medium: { concurrency: 2 } } }
+      )
+    ).toMatchObject({ tier: 'medium', enabled: true, concurrency: 2 })
+    expect(
+      decidePrefetchPolicy({}, { tiers: { high: { caches: [] } } }).enabled
+    ).toBe(false)
+  })
+})
+
+describe('#getPrefetchPolicy', () => {
+  const listeners = new Set<() => void>()
+  const connection = {
+    effectiveType: '4g',
+    addEventListener: (_: string, listener: () => void) =>
+      listeners.add(listener),
+    removeEventListener: (_: string, listener: () => void) =>
+      listeners.delete(listener),
+  }
+  const changeConnection = (effectiveType: string) => {
+    connection.effectiveType = effectiveType
+    listeners.forEach((listener) => listener())
+  }
+
+  beforeAll(() => {
+    Object.defineProperty(window.navigator, 'connection', {
+      configurable: true,
+      value: connection,
+    })
+  })
+
+  afterAll(() => {
+    delete (window.navigator as any).connection
+    setPrefetchPolicySettings()
+  })
+
+  it('should read the hints of the browser and the store settings', () => {
+    setPrefetchPolicySettings({ tiers: { high: { concurrency: 4 } } })
+
+    expect(getPrefetchPolicy()).toMatchObject({
+      tier: 'high',
+      concurrency: 4,
+      hints: { effectiveType: '4g' },
+    })
+  })
+
+  it('should decide again when the network changes', () => {
+    const onChange = jest.fn()
+    const stopWatching = watchPrefetchPolicy(onChange)
+
+    changeConnection('3g')
+    stopWatching()
+    changeConnection('slow-2g')
+
+    expect(onChange).toHaveBeenCalledTimes(1)
+    expect(onChange.mock.calls[0][0].tier).toBe('low')
+  })
+})
@@ -0,0 +1,210 @@
+import { canUseDOM } from 'exenv'
+
+/** - `paths`: the page data of each prefetched path
+ * - `routes`: the blocks of each prefetched page
+ * - `assets`: the scripts and styles of the blocks' components */
+export type PrefetchCache = 'paths' | 'routes' | 'assets'
+
+export type PrefetchTier = 'off' | 'low' | 'medium' | 'high'
+
+export interface PrefetchPolicyOptions {
+  /** How many prefetches may run at the same time */
+  concurrency: number
+  /** Fraction of a link that must be visible for it to be prefetched */
+  visibilityThreshold: number
+  caches: PrefetchCache[]
+  /** Whether links very likely to be clicked may be prerendered, which is
+   * also up to the `enablePrerender` store setting */
+  prerender: boolean
+}
+
+export interface PrefetchPolicySettings {
+  /** Uses this tier regardless of the network and the device */
+  tier?: PrefetchTier
+  /** Overrides the options of each tier */
+  tiers?: Partial<Record<PrefetchTier, Partial<PrefetchPolicyOptions>>>
+}
+
+/** What the browser tells about the network and the device. Browsers that
+ * don't support some of the APIs leave the matching hints out. */
+export interface PrefetchHints {
+  effectiveType?: string
+  saveData?: boolean
+  /** Round trip time in milliseconds */
+  rtt?: number
+  /** Memory of the device in gigabytes */
+  deviceMemory?: number
+  /** From 0 to 1 */
+  batteryLevel?: number
+  charging?: boolean
+}
+
+export interface PrefetchPolicy extends PrefetchPolicyOptions {
+  tier: PrefetchTier
+  enabled: boolean
+  hints: PrefetchHints
+}
+
+interface NetworkInformation extends EventTarget {
+  effectiveType?: string
+  saveData?: boolean
+  rtt?: number
+}
+
+interface BatteryManager extends EventTarget {
+  level: number
+  charging: boolean
+}
+
+interface NavigatorHints {
+  connection?: NetworkInformation
+  deviceMemory?: number
+  getBattery?: () => Promise<BatteryManager>
+}
+
+const TIERS: Record<PrefetchTier, PrefetchPolicyOptions> = {
+  off: { concurrency: 0, visibilityThreshold: 1, caches: [], prerender: false },
+  low: {
+    concurrency: 1,
+    visibilityThreshold: 1,
+    caches: ['paths', 'routes'],
+    prerender: false,
+  },
+  medium: {
+    concurrency: 3,
+    visibilityThreshold: 0.75,
+    caches: ['paths', 'routes', 'assets'],
+    prerender: false,
+  },
+  high: {
+    concurrency: 5,
+    visibilityThreshold: 0.75,
+    caches: ['paths', 'routes', 'assets'],
+    prerender: true,
+  },
+}
+
+const LOW_BATTERY_LEVEL = 0.2
+
+const getTier = (hints: PrefetchHints): PrefetchTier => {
+  const { effectiveType, saveData, rtt, deviceMemory, batteryLevel } = hints
+  if (saveData || effectiveType === 'slow-2g' || effectiveType === '2g') {
+    return 'off'
+  }
+
+  const lowBattery =
+    batteryLevel !== undefined &&
+    batteryLevel <= LOW_BATTERY_LEVEL &&
+    !hints.charging
+  if (
+    effectiveType === '3g' ||
+    (rtt !== undefined && rtt > 500) ||
+    (deviceMemory !== undefined && deviceMemory <= 1) ||
+    lowBattery
+  ) {
+    return 'low'
+  }
+
+  if (
+    (rtt !== undefined && rtt > 200) ||
+    (deviceMemory !== undefined && deviceMemory <= 2)
+  ) {
+    return 'medium'
+  }
+
+  return 'high'
+}
+
+/** Decides how aggressively to prefetch, from the hints of the network and
+ * the device. Stores may force a tier or change the options of each tier. */
+export const decidePrefetchPolicy = (
+  hints: PrefetchHints,
+  settings: PrefetchPolicySettings = {}
+): PrefetchPolicy => {
+  const tier = settings.tier ?? getTier(hints)
+  const options = { ...TIERS[tier], ...settings.tiers?.[tier] }
+
+  return {
+    ...options,
+    tier,
+    // The other caches are filled from the page data of the path
+    enabled: options.concurrency > 0 && options.caches.includes('paths'),
+    hints,
+  }
+}
+
+const getNavigator = () =>
+  canUseDOM ? (window.navigator as Navigator & NavigatorHints) : null
+
+let battery: BatteryManager | null = null
+let settings: PrefetchPolicySettings = {}
+let currentPolicy: PrefetchPolicy | null = null
+
+const readHints = (): PrefetchHints => {
+  const navigator = getNavigator()
+  const connection = navigator?.connection
+
+  return {
+    effectiveType: connection?.effectiveType,
+    saveData: connection?.saveData,
+    rtt: connection?.rtt,
+    deviceMemory: navigator?.deviceMemory,
+    batteryLevel: battery?.level,
+    charging: battery?.charging,
+  }
+}
+
+/** Returns the current decision, which is useful for debugging */
+export const getPrefetchPolicy = () => {
+  if (!currentPolicy) {
+    currentPolicy = decidePrefetchPolicy(readHints(), settings)
+  }
+
+  return currentPolicy
+}
+
+export const setPrefetchPolicySettings = (
+  policySettings: PrefetchPolicySettings = {}
+) => {
+  settings = policySettings
+  currentPolicy = null
+}
+
+/** Calls `onChange` with the new decision whenever the network or the battery
+ * changes. Returns a function that stops watching. */
+export const watchPrefetchPolicy = (
+  onChange: (policy: PrefetchPolicy) => void
+) => {
+  const navigator = getNavigator()
+  const connection = navigator?.connection
+  let isWatching = true
+
+  const update = () => {
+    if (!isWatching) {
+      return
+    }
+
+    currentPolicy = null
+    onChange(getPrefetchPolicy())
+  }
+
+  connection?.addEventListener('change', update)
+  navigator
+    ?.getBattery?.()
+    .then((batteryManager) => {
+      battery = batteryManager
+      battery.addEventListener('levelchange', update)
+      battery.addEventListener('chargingchange', update)
+      update()
+    })
+    .catch(() => {
+      // The Battery Status API may be blocked by permissions policies
+    })
+
+  return () => {
+    isWatching = false
+    connection?.removeEventListener('change', update)
+    battery?.removeEventListener('levelchange', update)
+    battery?.removeEventListener('chargingchange', update)
+  }
+}
@@ -0,0 +1,83 @@
+export type RawQueryValue = string | string[] | null | undefined
+
+export type RawQuery = Record<string, RawQueryValue>
+
+interface PendingQuery {
+  query: RawQuery
+  /** Values already given to `query`, before being encoded */
+  values: Record<string, any>
+  replace: boolean
+}
+
+/** Query of a render provider, which components can subscribe to without
+ * being updated by every change of the runtime. */
+export class QueryStore {
+  private query: RawQuery
+  private setQuery: RenderContext['setQuery']
+  private pending: PendingQuery | null = null
+  private listeners = new Set<() => void>()
+
+  constructor(
+    query: RawQuery | undefined,
+    setQuery: RenderContext['setQuery']
+  ) {
+    this.query = query ?? {}
+    this.setQuery = setQuery
+  }
+
+  public getQuery() {
+    return this.query
+  }
+
+  /** Values updated on this tick, which aren't on the query yet */
+  public getPendingValues() {
+    return this.pending?.values ?? {}
+  }
+
+  public subscribe(listener: () => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Reads the runtime while it renders. Listeners are only notified by
+   * `notify`, once the render is committed. */
+  public sync(
+    query: RawQuery | undefined,
+    setQuery: RenderContext['setQuery']
+  ) {
+    this.query = query ?? {}
+    this.setQuery = setQuery
+  }
+
+  public notify() {
+    this.listeners.forEach((listener) => listener())
+  }
+
+  /** Updates made in the same tick, even by different components, are merged
+   * into a single history entry. It is only replaced when every update asks
+   * for it. */
+  public update(
+    query: RawQuery,
+    values: Record<string, any>,
+    replace: boolean
+  ) {
+    if (!this.pending) {
+      this.pending = { query: {}, values: {}, replace: true }
+      Promise.resolve().then(this.flush)
+    }
+    const batch = this.pending
+    Object.assign(batch.query, query)
+    Object.assign(batch.values, values)
+    batch.replace = batch.replace && replace
+  }
+
+  private flush = () => {
+    const batch = this.pending
+    this.pending = null
+    if (batch && Object.keys(batch.query).length > 0) {
+      this.setQuery(batch.query, { replace: batch.replace })
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  getInternalRedirectPath,
+  getRelativePath,
+  isRedirectLoop,
+  MAX_REDIRECTS,
+} from './redirects'
+
+const pages = {
+  'store.product': { path: '/:slug/p' },
+  'store.custom#about': { path: '/about-us' },
+} as any
+
+describe('#getInternalRedirectPath', () => {
+  it('should return the path of redirects to known routes', () => {
+    expect(getInternalRedirectPath('/shirt/p?skuId=1', pages)).toBe(
+      '/shirt/p?skuId=1'
+    )
+    expect(
+      getInternalRedirectPath(`${window.location.origin}/about-us`, pages)
+    ).toBe('/about-us')
+  })
+
+  it('should remove the root path', () => {
+    expect(getInternalRedirectPath('/en/about-us', pages, '/en')).toBe(
+      '/about-us'
+    )
+  })
+
+  it('should return null for other origins and unknown routes', () => {
+    expect(
+      getInternalRedirectPath('https://example.com/about-us', pages)
+    ).toBeNull()
+    expect(getInternalRedirectPath('/unknown/path', pages)).toBeNull()
+  })
+})
+
+describe('#getRelativePath', () => {
+  it('should return same origin URLs as paths', () => {
+    expect(getRelativePath(`${window.location.origin}/a?b=c`)).toBe('/a?b=c')
+    expect(getRelativePath('https://example.com/a')).toBeNull()
+  })
+})
+
+describe('#isRedirectLoop', () => {
+  it('should detect paths that were already redirected', () => {
+    expect(isRedirectLoop(['/a', '/b'], '/a')).toBe(true)
+    expect(isRedirectLoop(['/a', '/b'], '/c')).toBe(false)
+  })
+
+  it('should give up after too many redirects', () => {
+    const chain = Array.from({ length: MAX_REDIRECTS }, (_, i) => `/${i}`)
+    expect(isRedirectLoop(chain, '/last')).toBe(true)
+  })
+})
@@ -0,0 +1,45 @@
+import { getRouteFromPath } from './pages'
+
+export const MAX_REDIRECTS = 10
+
+const parseSameOriginURL = (target: string, rootPath: string) => {
+  let url: URL
+  try {
+    url = new URL(target, window.location.href)
+  } catch (e) {
+    return null
+  }
+
+  if (url.origin !== window.location.origin) {
+    return null
+  }
+
+  const pathname =
+    rootPath && url.pathname.startsWith(`${rootPath}/`)
+      ? url.pathname.slice(rootPath.length)
+      : url.pathname
+
+  return { pathname, path: `${pathname}${url.search}${url.hash}` }
+}
+
+/** Returns the URL as a path without the root path, or null when it points
+ * to another origin */
+export const getRelativePath = (target: string, rootPath = '') =>
+  parseSameOriginURL(target, rootPath)?.path ?? null
+
+/** Returns the path, without the root path, that a redirect should be followed
+ * to on the client. Redirects to other origins or to paths that match no route
+ * return null, since only the browser can follow them. */
+export const getInternalRedirectPath = (
+  target: string,
+  pages: Pages,
+  rootPath = ''
+): string | null => {
+  const url = parseSameOriginURL(target, rootPath)
+  return url && getRouteFromPath(url.pathname, pages) ? url.path : null
+}
+
+/** `chain` holds the paths that were already redirected during the current
+ * navigation. */
+export const isRedirectLoop = (chain: string[], target: string) =>
+  chain.includes(target) || chain.length >= MAX_REDIRECTS
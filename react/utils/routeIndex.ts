@@ -0,0 +1,236 @@
+import RouteParser from 'route-parser'
+
+import { decodeParams } from './routeParams'
+
+export interface RouteIndexEntry {
+  id: string
+  /** Path template used to build the trie */
+  path: string
+  /** Template used to match paths, already adjusted by the caller */
+  template: string
+  /** Explicit priority of the page, higher values win over precedence */
+  priority: number
+  /** Comparable precedence, lower values win */
+  precedence: string
+  /** Locale of the template, for localized variants of a route */
+  locale?: string
+  paramTypes?: Page['paramTypes']
+}
+
+export interface RouteMatchingOptions {
+  /** Matches the static segments of templates regardless of case */
+  caseInsensitive?: boolean
+  /** Paths with a trailing slash always match as if they had none. With
+   * `redirect`, the URL is also replaced by the one without it. Defaults to
+   * `tolerate` */
+  trailingSlash?: 'tolerate' | 'redirect'
+  /** Percent-decodes params, e.g. `caf%C3%A9` becomes `café`. Defaults to
+   * `true` */
+  decodeParams?: boolean
+}
+
+export interface RouteIndexMatch {
+  id: string
+  params: Record<string, any>
+  locale?: string
+}
+
+export type MatchingRoute = RouteIndexMatch &
+  Omit<RouteIndexEntry, 'path' | 'paramTypes'>
+
+interface IndexedRoute extends RouteIndexEntry {
+  order: number
+}
+
+interface TrieNode {
+  statics: Map<string, TrieNode>
+  param: TrieNode | null
+  /** Routes that end at this node */
+  terminal: IndexedRoute[]
+  /** Routes that may match any remainder from this node on (splats or
+   * segments too complex to be indexed) */
+  rest: IndexedRoute[]
+}
+
+const PARAM_SEGMENT = /^:\w+$/
+const SPLAT_SEGMENT = /^\*\w+$/
+const SPECIAL_CHARS = /[:*()]/
+
+const parsers = new Map<string, RouteParser>()
+
+/** Returns a memoized parser for the given template, so the same template
+ * is never compiled twice. */
+export function getRouteParser(template: string) {
+  let parser = parsers.get(template)
+  if (!parser) {
+    parser = new RouteParser(template)
+    parsers.set(template, parser)
+  }
+  return parser
+}
+
+const createNode = (): TrieNode => ({
+  statics: new Map(),
+  param: null,
+  terminal: [],
+  rest: [],
+})
+
+const splitSegments = (path: string) =>
+  path.split('/').filter((segment) => segment !== '')
+
+/** Gives the static segments of the path the case of the template's, so it
+ * can be matched regardless of case without changing the case of params */
+export function foldCase(path: string, template: string) {
+  const [pathname, ...query] = path.split('?')
+  const templateSegments = template.split('/')
+  const folded = pathname
+    .split('/')
+    .map((segment, index) => {
+      const templateSegment = templateSegments[index]
+      return templateSegment !== undefined &&
+        !SPECIAL_CHARS.test(templateSegment) &&
+        templateSegment.toLowerCase() === segment.toLowerCase()
+        ? templateSegment
+        : segment
+    })
+    .join('/')
+
+  return [folded, ...query].join('?')
+}
+
+/** Matches the path against the template. Params are percent-decoded unless
+ * `decode` is false, and malformed sequences are kept as they are instead of
+ * failing the whole match. */
+export function matchTemplate(template: string, path: string, decode = true) {
+  const parser = getRouteParser(template)
+  if (decode) {
+    try {
+      return parser.match(path)
+    } catch (e) {
+      // URIError on malformed sequences, e.g. `%E0%A4%A`
+    }
+  }
+  // route-parser always decodes params, so escaping `%` keeps them raw
+  return parser.match(path.replace(/%/g, '%25'))
+}
+
+const byPrecedence = (a: IndexedRoute, b: IndexedRoute) => {
+  if (a.priority !== b.priority) {
+    return b.priority - a.priority
+  }
+  if (a.precedence !== b.precedence) {
+    return a.precedence < b.precedence ? -1 : 1
+  }
+  // On ties, the last declared route wins
+  return b.order - a.order
+}
+
+/** Segment trie of route templates. It is only used to narrow down which
+ * templates may match a path, the final word is always given by the template's
+ * RouteParser, so matching semantics are the same as testing every route. */
+export class RouteIndex {
+  private root: TrieNode = createNode()
+  private options: RouteMatchingOptions
+
+  constructor(entries: RouteIndexEntry[], options: RouteMatchingOptions = {}) {
+    this.options = options
+    entries.forEach((entry, order) => this.insert({ ...entry, order }))
+  }
+
+  public match(path: string): RouteIndexMatch | null {
+    for (const candidate of this.getCandidates(path)) {
+      const params = this.matchCandidate(candidate, path)
+      if (params) {
+        return { id: candidate.id, params, locale: candidate.locale }
+      }
+    }
+
+    return null
+  }
+
+  /** Every route that matches the path, the one `match` picks first */
+  public matchAll(path: string) {
+    return this.getCandidates(path).reduce((acc, candidate) => {
+      const params = this.matchCandidate(candidate, path)
+      if (params) {
+        const { id, locale, precedence, priority, template } = candidate
+        acc.push({ id, locale, params, precedence, priority, template })
+      }
+      return acc
+    }, [] as MatchingRoute[])
+  }
+
+  private getCandidates(path: string) {
+    const [pathname] = path.split('?')
+    const candidates: IndexedRoute[] = []
+    this.collect(this.root, splitSegments(pathname), 0, candidates)
+    return candidates.sort(byPrecedence)
+  }
+
+  /** Params that can't be decoded into their types reject the candidate */
+  private matchCandidate(candidate: IndexedRoute, path: string) {
+    const { caseInsensitive, decodeParams: decode = true } = this.options
+    const params = matchTemplate(
+      candidate.template,
+      caseInsensitive ? foldCase(path, candidate.path) : path,
+      decode
+    )
+    return params && decodeParams(params, candidate.paramTypes)
+  }
+
+  private getStaticKey(segment: string) {
+    return this.options.caseInsensitive ? segment.toLowerCase() : segment
+  }
+
+  private insert(route: IndexedRoute) {
+    let node = this.root
+    for (const segment of splitSegments(route.path)) {
+      if (SPLAT_SEGMENT.test(segment) || !this.isIndexable(segment)) {
+        node.rest.push(route)
+        return
+      }
+
+      if (PARAM_SEGMENT.test(segment)) {
+        node.param = node.param ?? createNode()
+        node = node.param
+        continue
+      }
+
+      const key = this.getStaticKey(segment)
+      let child = node.statics.get(key)
+      if (!child) {
+        child = createNode()
+        node.statics.set(key, child)
+      }
+      node = child
+    }
+    node.terminal.push(route)
+  }
+
+  private isIndexable(segment: string) {
+    return PARAM_SEGMENT.test(segment) || !SPECIAL_CHARS.test(segment)
+  }
+
+  private collect(
+    node: TrieNode,
+    segments: string[],
+    position: number,
+    candidates: IndexedRoute[]
+  ) {
+    candidates.push(...node.rest)
+
+    if (position === segments.length) {
+      candidates.push(...node.terminal)
+      return
+    }
+
+    const staticChild = node.statics.get(this.getStaticKey(segments[position]))
+    if (staticChild) {
+      this.collect(staticChild, segments, position + 1, candidates)
+    }
+    if (node.param) {
+      this.collect(node.param, segments, position + 1, candidates)
+    }
+  }
+}
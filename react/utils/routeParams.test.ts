@@ -0,0 +1,52 @@
+import { decodeParams, encodeParams } from './routeParams'
+
+const types = {
+  page: { type: 'int', default: 1 },
+  slug: 'slug',
+  sort: { type: 'enum', values: ['price', 'name'] },
+  filters: 'splat-array',
+} as Page['paramTypes']
+
+describe('#decodeParams', () => {
+  it('should decode params into their types', () => {
+    expect(
+      decodeParams(
+        { page: '2', slug: 'blue-shirt', sort: 'price', filters: 'a/b/' },
+        types
+      )
+    ).toEqual({
+      page: 2,
+      slug: 'blue-shirt',
+      sort: 'price',
+      filters: ['a', 'b'],
+    })
+  })
+
+  it('should fill in the defaults and keep params without types', () => {
+    expect(decodeParams({ _rest: '' }, types)).toEqual({ _rest: '', page: 1 })
+  })
+
+  it('should return null when some param does not fit its type', () => {
+    expect(decodeParams({ page: 'two' }, types)).toBeNull()
+    expect(decodeParams({ slug: 'Blue Shirt' }, types)).toBeNull()
+    expect(decodeParams({ sort: 'date' }, types)).toBeNull()
+  })
+})
+
+describe('#encodeParams', () => {
+  it('should encode params back into strings', () => {
+    expect(
+      encodeParams({ page: 2, filters: ['a', 'b'], sort: 'name' }, types)
+    ).toEqual({
+      params: { page: '2', filters: 'a/b', sort: 'name' },
+      invalid: [],
+    })
+  })
+
+  it('should list the params that do not fit their types', () => {
+    expect(encodeParams({ page: 1.5, sort: 'date' }, types).invalid).toEqual([
+      'page',
+      'sort',
+    ])
+  })
+})
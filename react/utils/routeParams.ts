@@ -0,0 +1,96 @@
+type Params = Record<string, any>
+
+const INT = /^-?\d+$/
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+const INVALID = Symbol('invalid')
+
+const normalize = (type: RouteParamType | RouteParamTypeName): RouteParamType =>
+  typeof type === 'string' ? { type } : type
+
+const decodeValue = ({ type, values = [] }: RouteParamType, value: string) => {
+  switch (type) {
+    case 'int':
+      return INT.test(value) ? parseInt(value, 10) : INVALID
+    case 'slug':
+      return SLUG.test(value) ? value : INVALID
+    case 'enum':
+      return values.includes(value) ? value : INVALID
+    case 'splat-array':
+      return value.split('/').filter((segment) => segment !== '')
+    default:
+      return value
+  }
+}
+
+const encodeValue = ({ type, values = [] }: RouteParamType, value: any) => {
+  switch (type) {
+    case 'int':
+      return Number.isInteger(Number(value)) && INT.test(`${value}`)
+        ? `${value}`
+        : INVALID
+    case 'slug':
+      return SLUG.test(`${value}`) ? `${value}` : INVALID
+    case 'enum':
+      return values.includes(`${value}`) ? `${value}` : INVALID
+    case 'splat-array':
+      return Array.isArray(value) ? value.join('/') : `${value}`
+    default:
+      return `${value}`
+  }
+}
+
+const isMissing = (value: any) => value == null || value === ''
+
+const mapParams = (
+  params: Params,
+  types: Record<string, RouteParamType | RouteParamTypeName>,
+  map: (type: RouteParamType, value: any) => any,
+  applyDefaults: boolean
+) => {
+  const mapped: Params = { ...params }
+  const invalid: string[] = []
+
+  Object.keys(types).forEach((name) => {
+    const type = normalize(types[name])
+    if (isMissing(params[name])) {
+      if (applyDefaults && type.default !== undefined) {
+        mapped[name] = type.default
+      }
+      return
+    }
+
+    const value = map(type, params[name])
+    if (value === INVALID) {
+      invalid.push(name)
+    } else {
+      mapped[name] = value
+    }
+  })
+
+  return { params: mapped, invalid }
+}
+
+/** Turns the params matched from a path into the types declared by the page.
+ * Returns null when some param can't be decoded, so the path doesn't match
+ * the page. Params without a declared type are kept as they are. */
+export function decodeParams(
+  params: Params,
+  types?: Page['paramTypes']
+): Params | null {
+  if (!types) {
+    return params
+  }
+
+  const decoded = mapParams(params, types, decodeValue, true)
+  return decoded.invalid.length === 0 ? decoded.params : null
+}
+
+/** Turns typed params back into the strings of a path. Params that can't be
+ * encoded are listed in `invalid`. Missing params are left out instead of
+ * taking their defaults. */
+export function encodeParams(params: Params, types?: Page['paramTypes']) {
+  return types
+    ? mapParams(params, types, encodeValue, false)
+    : { params, invalid: [] as string[] }
+}
@@ -0,0 +1,81 @@
+import {
+  createBrowserRouterAdapter,
+  createHashRouterAdapter,
+  createMemoryRouterAdapter,
+  isBrowserRouterAdapter,
+} from './routerAdapter'
+
+describe('isBrowserRouterAdapter', () => {
+  it('should only tell apart routers of the browser URL', () => {
+    expect(isBrowserRouterAdapter(createBrowserRouterAdapter())).toBe(true)
+    expect(isBrowserRouterAdapter(createMemoryRouterAdapter())).toBe(false)
+    expect(isBrowserRouterAdapter(createHashRouterAdapter())).toBe(false)
+  })
+})
+
+describe('createMemoryRouterAdapter', () => {
+  it('should notify listeners of the navigations', () => {
+    const router = createMemoryRouterAdapter({ initialEntries: ['/'] })
+    const listener = jest.fn()
+    router.listen(listener)
+
+    router.push({ pathname: '/shoes', state: { navigationRoute: {} } })
+
+    expect(router.location.pathname).toBe('/shoes')
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pathname: '/shoes',
+        state: { navigationRoute: {} },
+      }),
+      'PUSH'
+    )
+  })
+})
+
+describe('createHashRouterAdapter', () => {
+  afterEach(() => {
+    window.location.hash = ''
+  })
+
+  it('should keep the state of the locations it navigated to', () => {
+    const router = createHashRouterAdapter()
+    const listener = jest.fn()
+    router.listen(listener)
+
+    router.push({ pathname: '/shoes', search: '?page=2', state: { id: 1 } })
+
+    expect(router.location.pathname).toBe('/shoes')
+    expect(router.location.state).toEqual({ id: 1 })
+    expect(router.location.key).toBeDefined()
+    expect(listener.mock.calls[0][0].state).toEqual({ id: 1 })
+  })
+
+  it('should give a new key to each navigation', () => {
+    const router = createHashRouterAdapter()
+
+    router.push({ pathname: '/a', state: {} })
+    const firstKey = router.location.key
+    router.replace({ pathname: '/b', state: {} })
+
+    expect(router.location.key).not.toBe(firstKey)
+  })
+
+  it('should keep the state of each entry of the same path', async () => {
+    const router = createHashRouterAdapter()
+    router.push({ pathname: '/a', state: { id: 1 } })
+    router.push({ pathname: '/b', state: { id: 2 } })
+    router.push({ pathname: '/a', state: { id: 3 } })
+    router.push({ pathname: '/b', state: { id: 4 } })
+
+    const popped = new Promise((resolve) => {
+      const unlisten = router.listen((location) => {
+        unlisten()
+        resolve(location)
+      })
+    })
+    router.go(-3)
+
+    expect(await popped).toMatchObject({ pathname: '/a', state: { id: 1 } })
+    expect(router.location.state).toEqual({ id: 1 })
+  })
+})
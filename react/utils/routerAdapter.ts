@@ -0,0 +1,116 @@
+import {
+  BrowserHistoryBuildOptions,
+  createBrowserHistory,
+  History,
+  createHashHistory,
+  createMemoryHistory,
+  HashHistoryBuildOptions,
+  Location,
+  LocationDescriptorObject,
+  LocationListener,
+  MemoryHistoryBuildOptions,
+  TransitionPromptHook,
+  UnregisterCallback,
+} from 'history'
+
+import { getUserConfirmation } from './navigationGuards'
+import { createEntryKey } from './navigationHistory'
+
+/** What the runtime needs from a router. Every `history` object fits it, so
+ * embedded apps and tests can plug in the router they already have. */
+export interface RouterAdapter {
+  readonly location: Location
+  push(location: LocationDescriptorObject): void
+  replace(location: LocationDescriptorObject): void
+  go(delta: number): void
+  goBack(): void
+  listen(listener: LocationListener): UnregisterCallback
+  block(prompt?: TransitionPromptHook): UnregisterCallback
+  /** Set on routers whose locations are the browser's URL */
+  readonly isBrowserRouter?: boolean
+}
+
+export type BrowserRouterAdapter = History & { readonly isBrowserRouter: true }
+
+export const isBrowserRouterAdapter = (
+  router: RouterAdapter
+): router is BrowserRouterAdapter => router.isBrowserRouter === true
+
+export const createBrowserRouterAdapter = (
+  options: BrowserHistoryBuildOptions = {}
+): BrowserRouterAdapter =>
+  Object.assign(createBrowserHistory({ getUserConfirmation, ...options }), {
+    isBrowserRouter: true as const,
+  })
+
+export const createMemoryRouterAdapter = (
+  options: MemoryHistoryBuildOptions = {}
+): RouterAdapter => createMemoryHistory({ getUserConfirmation, ...options })
+
+const ENTRY_KEY = '__renderEntryKey'
+
+const getEntryKey = (): string | undefined => window.history.state?.[ENTRY_KEY]
+
+/** Keys the current entry of the browser's history, keeping its URL */
+const setEntryKey = (key: string) =>
+  window.history.replaceState({ ...window.history.state, [ENTRY_KEY]: key }, '')
+
+/** Hash history can't keep the location state, which the runtime relies on
+ * to route, so it is kept here for as long as the page lives. Each state is
+ * keyed on its entry of the browser's history, so entries of the same path
+ * keep their own state when going back and forth. */
+export const createHashRouterAdapter = (
+  options: HashHistoryBuildOptions = {}
+): RouterAdapter => {
+  const history = createHashHistory({ getUserConfirmation, ...options })
+  const states = new Map<string, unknown>()
+  let pendingKey: string | null = null
+
+  const withState = (location: Location, key = getEntryKey()): Location =>
+    key ? { ...location, key, state: states.get(key) } : location
+
+  // Listens before anyone else, so the entry is keyed when they are notified
+  history.listen((_, action) => {
+    if (action !== 'POP' && pendingKey) {
+      setEntryKey(pendingKey)
+      pendingKey = null
+    }
+  })
+
+  const navigateTo = (method: 'push' | 'replace') => (
+    location: LocationDescriptorObject
+  ) => {
+    const { state, ...path } = location
+    // Keys outlive reloads, unlike the states, so they mustn't repeat
+    pendingKey = createEntryKey()
+    states.set(pendingKey, state)
+    history[method](path)
+  }
+
+  return {
+    get location() {
+      return withState(history.location)
+    },
+    push: navigateTo('push'),
+    replace: navigateTo('replace'),
+    go: (delta) => history.go(delta),
+    goBack: () => history.goBack(),
+    listen: (listener) =>
+      history.listen((location, action) =>
+        listener(withState(location), action)
+      ),
+    block: (prompt) =>
+      history.block(
+        prompt &&
+          ((location, action) =>
+            prompt(
+              // Only pops have already moved to the entry they go to
+              withState(
+                location,
+                action === 'POP' ? getEntryKey() : pendingKey ?? undefined
+              ),
+              action
+            ))
+      ),
+  }
+}
@@ -8,6 +8,7 @@ import { generateExtensions } from './blocks'
 import { fetchWithRetry } from './fetch'
 import { parseMessages } from './messages'
 import { isEnabled } from './flags'
+import { getPrefetchPolicy } from './prefetchPolicy'
 import { DeviceInfo } from './withDevice'
 
 const parsePageQueryResponse = (
@@ -135,12 +136,18 @@ export const fetchServerPage = async ({
   query: rawQuery,
   workspace,
   deviceInfo,
+  signal,
+  followRedirects = true,
 }: {
   path: string
   query?: Record<string, string>
   fetcher: GlobalFetch['fetch']
   workspace?: string
   deviceInfo?: DeviceInfo
+  signal?: AbortSignal
+  /** When false, redirects are only returned in `redirect` and the caller is
+   * expected to follow them */
+  followRedirects?: boolean
 }): Promise<ParsedServerPageResponse> => {
   const url = getRelativeURLWithQuery({
     path,
@@ -160,6 +167,7 @@ export const fetchServerPage = async ({
       headers: {
         accept: 'application/json',
       },
+      signal,
     },
     fetcher
   ).then(({ response }) => response.json())
@@ -173,8 +181,9 @@ export const fetchServerPage = async ({
     route: { routeId },
     queryData,
   } = page
-  if (routeId === 'redirect') {
-    window.location.href = route.path
+  const redirect = routeId === 'redirect' ? route.path : undefined
+  if (redirect && followRedirects) {
+    window.location.href = redirect
   }
 
   const queryString = stringify(rawQuery || {})
@@ -193,11 +202,13 @@ export const fetchServerPage = async ({
       path: routePath,
     },
     queryData,
+    redirect,
   }
 }
 
 interface PrefetchPageResponse {
   page: string
+  cacheHints?: CacheHintsMap
   queryData: RenderRuntime['queryData']
   contentResponse: ContentResponse | null
   route: RenderRuntime['route']
@@ -232,7 +243,8 @@ export const isPrefetchActive = (
 ) =>
   prefetchCounters.pages < 4 &&
   prefetchCounters.render < 4 &&
-  isPrefetchEnabled(storeSettings)
+  isPrefetchEnabled(storeSettings) &&
+  getPrefetchPolicy().enabled
 
 export const getPrefetchForPath = async ({
   fetcher,
@@ -250,7 +262,7 @@ export const getPrefetchForPath = async ({
     query: {
       ...rawQuery,
       ...(workspace ? { workspace } : {}),
-      __pickRuntime: 'page,queryData,contentResponse,route',
+      __pickRuntime: 'page,queryData,contentResponse,route,cacheHints',
     },
   })
 
@@ -0,0 +1,26 @@
+import { getScrollPosition, saveScrollPosition } from './scrollRestoration'
+
+describe('#saveScrollPosition', () => {
+  beforeEach(() => {
+    window.sessionStorage.clear()
+  })
+
+  it('should save the scroll position by history entry key', () => {
+    Object.assign(window, { scrollX: 10, scrollY: 1500 })
+    saveScrollPosition('abc123')
+
+    expect(getScrollPosition('abc123')).toEqual({ top: 1500, left: 10 })
+    expect(getScrollPosition('def456')).toBeNull()
+    expect(getScrollPosition(undefined)).toBeNull()
+  })
+
+  it('should keep only the most recent entries', () => {
+    for (let i = 0; i <= 100; i++) {
+      saveScrollPosition(`key${i}`)
+    }
+
+    expect(getScrollPosition('key0')).toBeNull()
+    expect(getScrollPosition('key1')).not.toBeNull()
+    expect(getScrollPosition('key100')).not.toBeNull()
+  })
+})
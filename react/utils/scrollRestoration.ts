@@ -0,0 +1,79 @@
+import { canUseDOM } from 'exenv'
+
+import { readSessionStorage, writeSessionStorage } from './sessionStorage'
+
+export type ScrollRestoration = 'auto' | 'manual' | 'top'
+
+export interface ScrollPosition {
+  top: number
+  left: number
+}
+
+const STORAGE_KEY = '__renderScrollPositions'
+const MAX_ENTRIES = 100
+const MAX_RESTORE_FRAMES = 60
+
+const readPositions = () =>
+  readSessionStorage<Record<string, ScrollPosition>>(STORAGE_KEY, {})
+
+export const saveScrollPosition = (key?: string) => {
+  if (!canUseDOM || !key) {
+    return
+  }
+
+  const positions = readPositions()
+  delete positions[key]
+  positions[key] = { top: window.scrollY, left: window.scrollX }
+
+  const keys = Object.keys(positions)
+  keys.slice(0, Math.max(keys.length - MAX_ENTRIES, 0)).forEach((oldKey) => {
+    delete positions[oldKey]
+  })
+
+  writeSessionStorage(STORAGE_KEY, positions)
+}
+
+export const getScrollPosition = (key?: string): ScrollPosition | null =>
+  (canUseDOM && key && readPositions()[key]) || null
+
+/** Scrolls to a saved position as soon as the page is tall enough to reach
+ * it, since lazy blocks may still be growing the page after the first render. */
+export const restoreScrollPosition = (position: ScrollPosition, frame = 0) => {
+  const maxTop =
+    document.documentElement.scrollHeight -
+    document.documentElement.clientHeight
+
+  if (maxTop < position.top && frame < MAX_RESTORE_FRAMES) {
+    window.requestAnimationFrame(() =>
+      restoreScrollPosition(position, frame + 1)
+    )
+    return
+  }
+
+  window.scrollTo(position.left, position.top)
+}
+
+/** Takes over the browser's own restoration, which happens before the new page
+ * is rendered. It is handed back on unload so reloads keep the native behavior. */
+export const setupScrollRestoration = () => {
+  if (!canUseDOM || !('scrollRestoration' in window.history)) {
+    return () => {}
+  }
+
+  const setManual = () => {
+    window.history.scrollRestoration = 'manual'
+  }
+  const setAuto = () => {
+    window.history.scrollRestoration = 'auto'
+  }
+
+  setManual()
+  window.addEventListener('pagehide', setAuto)
+  window.addEventListener('pageshow', setManual)
+
+  return () => {
+    setAuto()
+    window.removeEventListener('pagehide', setAuto)
+    window.removeEventListener('pageshow', setManual)
+  }
+}
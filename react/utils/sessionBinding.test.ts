@@ -0,0 +1,52 @@
+import {
+  bindToSession,
+  changeSession,
+  isBoundToCurrentSession,
+} from './sessionBinding'
+
+const queryData = (scope?: string) => [
+  {
+    query: `query Product { product ${
+      scope ? `@context(scope: "${scope}") ` : ''
+    }{ price } }`,
+    variables: {},
+    data: '{}',
+  },
+]
+
+const setSegment = (token: string) => {
+  document.cookie = `vtex_segment=${token};path=/`
+}
+
+describe('session binding', () => {
+  beforeEach(() => {
+    setSegment('segment-a')
+  })
+
+  it('should not bind data of public queries', () => {
+    expect(bindToSession(queryData())).toBeUndefined()
+    expect(isBoundToCurrentSession(undefined)).toBe(true)
+  })
+
+  it('should bind data of segment queries to the segment', () => {
+    const binding = bindToSession(queryData('segment'))
+    expect(binding).toEqual({ segmentToken: 'segment-a' })
+
+    changeSession()
+    expect(isBoundToCurrentSession(binding)).toBe(true)
+
+    setSegment('segment-b')
+    expect(isBoundToCurrentSession(binding)).toBe(false)
+  })
+
+  it('should bind data of private queries until the session changes', () => {
+    const binding = bindToSession([
+      ...queryData('segment'),
+      ...queryData('private'),
+    ])
+    expect(isBoundToCurrentSession(binding)).toBe(true)
+
+    changeSession()
+    expect(isBoundToCurrentSession(binding)).toBe(false)
+  })
+})
@@ -0,0 +1,81 @@
+import { parse } from 'graphql'
+
+import { getQueryScope } from './client/links/uriSwitchLink'
+import { getCookie } from './cookie'
+
+const SEGMENT_COOKIE = 'vtex_segment'
+
+/** Ties cached data to the session it was fetched on. Data of `segment`
+ * scoped queries is only valid for the same segment, e.g. the same region and
+ * price table, and data of `private` ones only until the session changes. */
+export interface SessionBinding {
+  segmentToken?: string
+  sessionId?: string
+}
+
+// Private data can't be told apart across page loads, so it is never reused
+// on other ones
+const LOAD_ID = Math.random().toString(36).slice(2)
+let sessionVersion = 0
+
+const getSegmentToken = () =>
+  getCookie(SEGMENT_COOKIE) ?? window.__RUNTIME__?.segmentToken
+
+const getSessionId = () => `${LOAD_ID}:${sessionVersion}`
+
+/** Called once the session may have changed, e.g. after it is patched */
+export const changeSession = () => {
+  sessionVersion++
+}
+
+const getScope = (
+  queryData: RenderRuntime['queryData'] = [],
+  cacheHints: CacheHintsMap = {}
+) => {
+  if (window.__RUNTIME__?.channelPrivacy === 'private') {
+    return 'private'
+  }
+
+  let scope = 'public'
+  for (const { query } of queryData) {
+    try {
+      const queryScope = getQueryScope(parse(query), cacheHints)
+      if (queryScope === 'private') {
+        return queryScope
+      }
+      if (queryScope === 'segment') {
+        scope = queryScope
+      }
+    } catch (e) {
+      // Queries that can't be parsed are never written to the cache
+    }
+  }
+
+  return scope
+}
+
+/** Returns the binding of data fetched by the queries, or undefined when
+ * the data doesn't depend on the session */
+export const bindToSession = (
+  queryData?: RenderRuntime['queryData'],
+  cacheHints?: CacheHintsMap
+): SessionBinding | undefined => {
+  const scope = getScope(queryData, cacheHints)
+  if (scope === 'private') {
+    return { sessionId: getSessionId() }
+  }
+
+  return scope === 'segment' ? { segmentToken: getSegmentToken() } : undefined
+}
+
+export const isBoundToCurrentSession = (binding?: SessionBinding) => {
+  if (!binding) {
+    return true
+  }
+
+  if (binding.sessionId !== undefined) {
+    return binding.sessionId === getSessionId()
+  }
+
+  return binding.segmentToken === getSegmentToken()
+}
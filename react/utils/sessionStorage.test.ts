@@ -0,0 +1,41 @@
+import {
+  readSessionStorage,
+  removeSessionStorage,
+  writeSessionStorage,
+} from './sessionStorage'
+
+describe('sessionStorage', () => {
+  beforeEach(() => {
+    window.sessionStorage.clear()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should read what was written', () => {
+    expect(writeSessionStorage('key', { a: 1 })).toBe(true)
+    expect(readSessionStorage('key', {})).toEqual({ a: 1 })
+
+    removeSessionStorage('key')
+    expect(readSessionStorage('key', {})).toEqual({})
+  })
+
+  it('should fall back on values that are not JSON', () => {
+    window.sessionStorage.setItem('key', '{')
+    expect(readSessionStorage('key', [])).toEqual([])
+  })
+
+  it('should not throw when sessionStorage is unavailable', () => {
+    const unavailable = () => {
+      throw new Error('SecurityError')
+    }
+    jest.spyOn(Storage.prototype, 'getItem').mockImplementation(unavailable)
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(unavailable)
+    jest.spyOn(Storage.prototype, 'removeItem').mockImplementation(unavailable)
+
+    expect(readSessionStorage('key', null)).toBeNull()
+    expect(writeSessionStorage('key', 'value')).toBe(false)
+    expect(() => removeSessionStorage('key')).not.toThrow()
+  })
+})
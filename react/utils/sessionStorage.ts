@@ -0,0 +1,34 @@
+import { canUseDOM } from 'exenv'
+
+/** Reads a JSON value, falling back when there is none or it can't be read,
+ * e.g. when sessionStorage is unavailable on private browsing */
+export const readSessionStorage = <T>(key: string, fallback: T): T => {
+  if (!canUseDOM) {
+    return fallback
+  }
+
+  try {
+    return JSON.parse(window.sessionStorage.getItem(key) ?? 'null') ?? fallback
+  } catch (e) {
+    return fallback
+  }
+}
+
+/** Returns whether the value was stored, since sessionStorage may be full or
+ * unavailable */
+export const writeSessionStorage = (key: string, value: unknown) => {
+  try {
+    window.sessionStorage.setItem(key, JSON.stringify(value))
+    return true
+  } catch (e) {
+    return false
+  }
+}
+
+export const removeSessionStorage = (key: string) => {
+  try {
+    window.sessionStorage.removeItem(key)
+  } catch (e) {
+    // Nothing was stored if sessionStorage is unavailable
+  }
+}
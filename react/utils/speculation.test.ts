@@ -0,0 +1,79 @@
+import { getSpeculationMethod, isPrerendered, prerender } from './speculation'
+
+const getRules = () =>
+  JSON.parse(
+    document.querySelector('script[type="speculationrules"]')?.textContent ??
+      'null'
+  )
+
+describe('speculation', () => {
+  afterEach(() => {
+    delete (HTMLScriptElement as any).supports
+    jest.restoreAllMocks()
+  })
+
+  it('should fall back to prefetching data when browsers cannot prerender', () => {
+    expect(getSpeculationMethod()).toBeNull()
+    expect(prerender('/unsupported/p')).toBe(false)
+    expect(isPrerendered('/unsupported/p')).toBe(false)
+  })
+
+  it('should list the prerendered URLs on speculation rules', () => {
+    ;(HTMLScriptElement as any).supports = (type: string) =>
+      type === 'speculationrules'
+
+    expect(prerender('/shirt/p?skuId=1')).toBe(true)
+    expect(prerender('/pants/p')).toBe(true)
+
+    expect(getRules()).toEqual({
+      prerender: [{ source: 'list', urls: ['/shirt/p?skuId=1', '/pants/p'] }],
+    })
+    expect(
+      document.querySelectorAll('script[type="speculationrules"]')
+    ).toHaveLength(1)
+    expect(isPrerendered(`${window.location.origin}/pants/p`)).toBe(true)
+    expect(isPrerendered('/pants/p?skuId=2')).toBe(false)
+  })
+
+  it('should keep only the most recent prerenders', () => {
+    ;(HTMLScriptElement as any).supports = () => true
+
+    for (let i = 0; i < 12; i++) {
+      prerender(`/product-${i}/p`)
+    }
+
+    const { urls } = getRules().prerender[0]
+    expect(urls).toHaveLength(10)
+    expect(urls[9]).toBe('/product-11/p')
+    expect(isPrerendered('/product-0/p')).toBe(false)
+  })
+
+  it('should stop counting on prerenders the browser has discarded', () => {
+    ;(HTMLScriptElement as any).supports = () => true
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now)
+
+    prerender('/old/p')
+    ;(Date.now as jest.Mock).mockReturnValue(now + 1000 * 60 * 6)
+
+    expect(isPrerendered('/old/p')).toBe(false)
+  })
+
+  it('should not count on link prerenders, which only prefetch the document', () => {
+    const createElement = document.createElement.bind(document)
+    jest.spyOn(document, 'createElement').mockImplementation((tag: string) => {
+      const element = createElement(tag)
+      if (tag === 'link') {
+        Object.defineProperty(element, 'relList', {
+          value: { supports: () => true },
+        })
+      }
+      return element
+    })
+
+    expect(getSpeculationMethod()).toBe('prerender')
+    expect(prerender('/hat/p')).toBe(true)
+    expect(document.querySelector('link[rel="prerender"]')).not.toBeNull()
+    expect(isPrerendered('/hat/p')).toBe(false)
+  })
+})
@@ -0,0 +1,121 @@
+import { canUseDOM } from 'exenv'
+
+export type SpeculationMethod = 'speculationrules' | 'prerender'
+
+interface Prerender {
+  url: string
+  time: number
+  method: SpeculationMethod
+  link?: HTMLLinkElement
+}
+
+const SCRIPT_ID = 'render-speculation-rules'
+// Browsers cap how many pages may be prerendered at once, and each one costs
+// memory and bandwidth
+const MAX_PRERENDERS = 10
+// Browsers discard prerendered pages that aren't navigated to after a while,
+// and a full page load is slower than a client side navigation
+const PRERENDER_MAX_AGE_MS = 1000 * 60 * 5
+
+let prerenders: Prerender[] = []
+
+const toURL = (url: string) => {
+  const { pathname, search } = new URL(url, window.location.href)
+  return `${pathname}${search}`
+}
+
+export const getSpeculationMethod = (): SpeculationMethod | null => {
+  if (!canUseDOM) {
+    return null
+  }
+
+  const script = HTMLScriptElement as typeof HTMLScriptElement & {
+    supports?: (type: string) => boolean
+  }
+  if (script.supports?.('speculationrules')) {
+    return 'speculationrules'
+  }
+
+  try {
+    return document.createElement('link').relList.supports('prerender')
+      ? 'prerender'
+      : null
+  } catch (e) {
+    // Browsers that don't know any link types throw instead of returning false
+    return null
+  }
+}
+
+const writeSpeculationRules = () => {
+  // Rules are only read when the script is inserted, so it is replaced
+  document.getElementById(SCRIPT_ID)?.remove()
+
+  const script = document.createElement('script')
+  script.id = SCRIPT_ID
+  script.type = 'speculationrules'
+  script.textContent = JSON.stringify({
+    prerender: [{ source: 'list', urls: prerenders.map(({ url }) => url) }],
+  })
+  document.head.appendChild(script)
+}
+
+const addPrerenderLink = (entry: Prerender) => {
+  const link = document.createElement('link')
+  link.rel = 'prerender'
+  link.href = entry.url
+  document.head.appendChild(link)
+  entry.link = link
+}
+
+const isRecent = (item: Prerender) =>
+  item.time >= Date.now() - PRERENDER_MAX_AGE_MS
+
+/** Tells whether the URL was recently asked to be prerendered through
+ * speculation rules, so loading it as a full page may activate it. Browsers
+ * may still have discarded it, e.g. under memory pressure. Most browsers only
+ * prefetch the document of `<link rel="prerender">`, so those never count. */
+export const isPrerendered = (url: string) => {
+  if (!canUseDOM) {
+    return false
+  }
+
+  const target = toURL(url)
+  return prerenders.some(
+    (item) =>
+      item.url === target &&
+      item.method === 'speculationrules' &&
+      isRecent(item)
+  )
+}
+
+/** Asks the browser to prerender the URL, so that loading it as a full page
+ * is instant. Returns `false` when the browser can't, so callers may fall back
+ * to prefetching the data of the page. */
+export const prerender = (url: string) => {
+  const method = getSpeculationMethod()
+  if (!method) {
+    return false
+  }
+
+  const target = toURL(url)
+  if (prerenders.some((item) => item.url === target && isRecent(item))) {
+    return true
+  }
+
+  const entry: Prerender = { url: target, time: Date.now(), method }
+  const next = [...prerenders.filter((item) => item.url !== target), entry]
+  const removed = [
+    ...prerenders.filter((item) => item.url === target),
+    ...next.slice(0, -MAX_PRERENDERS),
+  ]
+  removed.forEach(({ link }) => link?.remove())
+  prerenders = next.slice(-MAX_PRERENDERS)
+
+  if (method === 'speculationrules') {
+    writeSpeculationRules()
+  } else {
+    addPrerenderLink(entry)
+  }
+
+  return true
+}